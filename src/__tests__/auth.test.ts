@@ -0,0 +1,109 @@
+import { NetworkHandler } from '../core/networkHandler';
+import type { AuthConfig, NetworkEvent } from '../types';
+import { flush, useBrowserStubs } from './helpers';
+
+describe('auth token refresh', () => {
+  useBrowserStubs();
+  let token: string;
+  let validToken: string;
+  let sentTokens: string[];
+
+  beforeEach(() => {
+    token = 'old';
+    validToken = 'old';
+    sentTokens = [];
+    global.fetch = jest.fn(async (_url: any, init?: RequestInit) => {
+      const authorization = (init?.headers as Record<string, string>)
+        .Authorization!;
+      sentTokens.push(authorization);
+      return new Response('', {
+        status: authorization === `Bearer ${validToken}` ? 200 : 401,
+      });
+    }) as any;
+  });
+
+  const createHandler = async (auth: Partial<AuthConfig> = {}) => {
+    const handler = new NetworkHandler({
+      auth: {
+        getHeaders: () => ({ Authorization: `Bearer ${token}` }),
+        refresh: async () => {
+          token = 'new';
+        },
+        ...auth,
+      },
+    });
+    await flush();
+    return handler;
+  };
+
+  it('adds headers when the request is sent, not when it is queued', async () => {
+    (global as any).navigator = { onLine: false };
+    const handler = await createHandler();
+    const response = handler.smartFetch('/notes', { method: 'POST' });
+    await flush();
+
+    token = validToken = 'rotated';
+    await handler.retryRequest(handler.getQueuedRequests()[0]!.id);
+
+    expect((await response).status).toBe(200);
+    expect(sentTokens).toEqual(['Bearer rotated']);
+    handler.destroy();
+  });
+
+  it('refreshes once for concurrent 401s and replays each request once', async () => {
+    validToken = 'new';
+    const refresh = jest.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      token = 'new';
+    });
+    const handler = await createHandler({ refresh });
+
+    const responses = await Promise.all([
+      handler.smartFetch('/a'),
+      handler.smartFetch('/b'),
+      handler.smartFetch('/c'),
+    ]);
+
+    expect(responses.map((response) => response.status)).toEqual([
+      200, 200, 200,
+    ]);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(sentTokens.filter((sent) => sent === 'Bearer old')).toHaveLength(3);
+    expect(sentTokens.filter((sent) => sent === 'Bearer new')).toHaveLength(3);
+    handler.destroy();
+  });
+
+  it('reports a failed refresh once and keeps the 401', async () => {
+    validToken = 'new';
+    let fail!: () => void;
+    const refresh = jest.fn(
+      () =>
+        new Promise<void>((_resolve, reject) => {
+          fail = () => reject(new Error('Session ended'));
+        })
+    );
+    const handler = await createHandler({ refresh });
+    const events: NetworkEvent[] = [];
+    handler.onTelemetry((event) => events.push(event));
+
+    const rejected = [handler.smartFetch('/notes'), handler.smartFetch('/a')];
+    await flush();
+    // Waits for the refresh in progress before it is sent
+    const waiting = handler.smartFetch('/b');
+    await flush();
+    fail();
+    const responses = await Promise.all([...rejected, waiting]);
+
+    expect(responses.map((response) => response.status)).toEqual([
+      401, 401, 401,
+    ]);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(sentTokens).toEqual(['Bearer old', 'Bearer old', 'Bearer old']);
+    expect(
+      events.filter((event) => event.type === 'auth-refresh-failed')
+    ).toEqual([
+      expect.objectContaining({ data: { error: new Error('Session ended') } }),
+    ]);
+    handler.destroy();
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  BodyCodecRegistry,
+  base64ToBytes,
+  bytesToBase64,
+} from '../utils/bodyCodec';
+import { BodySerializationError } from '../core/errors';
+import { RequestQueue } from '../core/requestQueue';
+import type {} from '../types';
+import { MemoryStorage } from './helpers';
+
+describe('body codecs', () => {
+  const registry = new BodyCodecRegistry();
+
+  const roundTrip = async (body: unknown) => {
+    const encoded = await registry.encode(body);
+    return registry.decode(JSON.parse(JSON.stringify(encoded)));
+  };
+
+  it('round-trips base64 for every byte length', () => {
+    for (let length = 0; length < 8; length++) {
+      const bytes = Uint8Array.from({ length }, (_, i) => 250 - i * 31);
+      expect(bytesToBase64(bytes)).toBe(Buffer.from(bytes).toString('base64'));
+      expect(Array.from(base64ToBytes(bytesToBase64(bytes)))).toEqual(
+        Array.from(bytes)
+      );
+    }
+  });
+
+  it('restores text, search params and JSON bodies', async () => {
+    expect(await roundTrip('{"a":1}')).toBe('{"a":1}');
+    expect((await roundTrip(new URLSearchParams('a=1&b=2'))).toString()).toBe(
+      'a=1&b=2'
+    );
+    expect(await roundTrip({ nested: [1, 2] })).toEqual({ nested: [1, 2] });
+  });
+
+  it('restores binary bodies', async () => {
+    const buffer = Uint8Array.from([1, 2, 3, 255]).buffer;
+    const restoredBuffer = await roundTrip(buffer);
+    expect(restoredBuffer).toBeInstanceOf(ArrayBuffer);
+    expect(Array.from(new Uint8Array(restoredBuffer))).toEqual([1, 2, 3, 255]);
+
+    const view = await roundTrip(Uint8Array.from([9, 8, 7]));
+    expect(view).toBeInstanceOf(Uint8Array);
+    expect(Array.from(view)).toEqual([9, 8, 7]);
+
+    const blob = await roundTrip(new Blob(['hello'], { type: 'text/plain' }));
+    expect(blob.type).toBe('text/plain');
+    expect(await blob.text()).toBe('hello');
+  });
+
+  it('restores multipart bodies with files', async () => {
+    const formData = new FormData();
+    formData.append('caption', 'beach');
+    formData.append(
+      'photo',
+      new Blob([Uint8Array.from([1, 2, 3])], { type: 'image/jpeg' }),
+      'beach.jpg'
+    );
+
+    const restored: FormData = await roundTrip(formData);
+    expect(restored.get('caption')).toBe('beach');
+    const photo = restored.get('photo') as File;
+    expect(photo.name).toBe('beach.jpg');
+    expect(photo.type).toBe('image/jpeg');
+    expect(Array.from(new Uint8Array(await photo.arrayBuffer()))).toEqual([
+      1, 2, 3,
+    ]);
+  });
+
+  it('rejects streams', async () => {
+    await expect(registry.encode(new ReadableStream())).rejects.toBeInstanceOf(
+      BodySerializationError
+    );
+  });
+
+  it('persists bodies through the queue', async () => {
+    const storage = new MemoryStorage();
+    const config = { policy: 'persist' as const, persistToStorage: true };
+    const queue = new RequestQueue(config, storage);
+    await queue.enqueue({
+      url: '/upload',
+      method: 'POST',
+      body: new URLSearchParams('q=1'),
+    });
+    await expect(
+      queue.enqueue({ url: '/s', method: 'POST', body: new ReadableStream() })
+    ).rejects.toBeInstanceOf(BodySerializationError);
+
+    const restoredQueue = new RequestQueue(config, storage);
+    await restoredQueue.whenLoaded();
+    const [request] = restoredQueue.getAll();
+    expect(restoredQueue.size()).toBe(1);
+    expect(request?.body).toBeInstanceOf(URLSearchParams);
+    expect(request?.body.toString()).toBe('q=1');
+  });
+});
@@ -0,0 +1,118 @@
+import { CircuitBreaker, getOrigin } from '../core/circuitBreaker';
+import { RetryBudget } from '../core/retryBudget';
+import { NetworkHandler } from '../core/networkHandler';
+import { CircuitOpenError } from '../core/errors';
+import type { CircuitState, NetworkEvent } from '../types';
+import { useBrowserStubs } from './helpers';
+
+const origin = 'https://api.example.com';
+
+describe('CircuitBreaker', () => {
+  const createBreaker = () =>
+    new CircuitBreaker({
+      failureThreshold: 0.5,
+      minimumRequests: 4,
+      window: 1000,
+      cooldown: 500,
+    });
+
+  it('opens once the failure rate crosses the threshold', () => {
+    const breaker = createBreaker();
+    const changes: CircuitState[] = [];
+    breaker.onStateChange((_origin, state) => changes.push(state));
+
+    [false, true, false].forEach((failed) => breaker.record(origin, failed, 0));
+    expect(breaker.getState(origin)).toBe('closed');
+    breaker.record(origin, true, 10);
+
+    expect(breaker.getState(origin)).toBe('open');
+    expect(breaker.tryAcquire(origin, 100)).toBe(false);
+    expect(breaker.tryAcquire('https://cdn.example.com', 100)).toBe(true);
+    expect(changes).toEqual(['open']);
+  });
+
+  it('only counts outcomes inside the window', () => {
+    const breaker = createBreaker();
+    [true, true, true].forEach((failed) => breaker.record(origin, failed, 0));
+    breaker.record(origin, true, 1500);
+    expect(breaker.getState(origin)).toBe('closed');
+  });
+
+  it('lets one probe through after the cool-down', () => {
+    const breaker = createBreaker();
+    [true, true, true, true].forEach((failed) =>
+      breaker.record(origin, failed, 0)
+    );
+
+    expect(breaker.tryAcquire(origin, 500)).toBe(true);
+    expect(breaker.getState(origin)).toBe('half-open');
+    expect(breaker.tryAcquire(origin, 500)).toBe(false);
+
+    breaker.record(origin, true, 600);
+    expect(breaker.getState(origin)).toBe('open');
+    expect(breaker.retryAt(origin)).toBe(1100);
+
+    expect(breaker.tryAcquire(origin, 1100)).toBe(true);
+    breaker.record(origin, false, 1200);
+    expect(breaker.getState(origin)).toBe('closed');
+  });
+
+  it('groups URLs by origin', () => {
+    expect(getOrigin('HTTPS://API.example.com:8443/notes?x=1')).toBe(
+      'https://api.example.com:8443'
+    );
+  });
+});
+
+describe('RetryBudget', () => {
+  it('caps retries to a share of recent requests', () => {
+    const budget = new RetryBudget({ ratio: 0.5, window: 1000, minRetries: 1 });
+    for (let i = 0; i < 4; i++) {
+      budget.recordRequest(0);
+    }
+
+    expect(budget.tryRetry(10)).toBe(true);
+    expect(budget.tryRetry(10)).toBe(true);
+    expect(budget.tryRetry(10)).toBe(false);
+    // Old traffic leaves the window, the minimum remains
+    expect(budget.tryRetry(2000)).toBe(true);
+    expect(budget.tryRetry(2000)).toBe(false);
+  });
+});
+
+describe('NetworkHandler with circuit breaker and retry budget', () => {
+  useBrowserStubs();
+
+  it('fails fast once the circuit opens and stops retrying when the budget is spent', async () => {
+    global.fetch = jest.fn(
+      async () => new Response('', { status: 503 })
+    ) as any;
+    const handler = new NetworkHandler({
+      retry: { maxAttempts: 5, baseDelay: 0 },
+      circuitBreaker: { minimumRequests: 3, cooldown: 60000 },
+      retryBudget: { ratio: 0, minRetries: 1 },
+    });
+    const events: NetworkEvent[] = [];
+    handler.onTelemetry((event) => events.push(event));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const url = `${origin}/notes`;
+    await expect(handler.smartFetch(url)).rejects.toThrow('HTTP 503');
+    await expect(handler.smartFetch(url)).rejects.toThrow('HTTP 503');
+    await expect(handler.smartFetch(url)).rejects.toBeInstanceOf(
+      CircuitOpenError
+    );
+
+    // First request: 1 attempt + 1 budgeted retry, then one attempt each
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    const types = events.map((event) => event.type);
+    expect(types).toContain('retry-budget-exhausted');
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: 'circuit-state-changed',
+        data: { origin, state: 'open', previousState: 'closed' },
+      })
+    );
+    handler.destroy();
+  });
+});
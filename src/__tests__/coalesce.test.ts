@@ -0,0 +1,174 @@
+import { NetworkHandler } from '../core/networkHandler';
+import { RequestAbortedError, TimeoutError } from '../core/errors';
+import type { NetworkEvent } from '../types';
+import { emit, flush, useBrowserStubs } from './helpers';
+
+describe('request coalescing', () => {
+  useBrowserStubs();
+  let release: () => void;
+  let signals: (AbortSignal | undefined)[];
+
+  beforeEach(() => {
+    signals = [];
+    // Responses wait for release() unless the request is aborted first
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    global.fetch = jest.fn(
+      (url: any, init?: RequestInit) =>
+        new Promise<Response>((resolve, reject) => {
+          signals.push(init?.signal || undefined);
+          init?.signal?.addEventListener('abort', () =>
+            reject(init.signal!.reason)
+          );
+          released.then(() => resolve(new Response(`body of ${url}`)));
+        })
+    ) as any;
+  });
+
+  const createHandler = async () => {
+    const handler = new NetworkHandler({ retry: { maxAttempts: 1 } });
+    await flush();
+    return handler;
+  };
+
+  it('shares one fetch and gives every caller its own body', async () => {
+    const handler = await createHandler();
+    const events: NetworkEvent[] = [];
+    handler.onTelemetry((event) => events.push(event));
+
+    const responses = [
+      handler.smartFetch('/feed'),
+      handler.smartFetch('/feed'),
+      handler.smartFetch('/feed'),
+    ];
+    release();
+    const bodies = await Promise.all(
+      responses.map(async (response) => (await response).text())
+    );
+
+    expect(bodies).toEqual(['body of /feed', 'body of /feed', 'body of /feed']);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(
+      events.filter((event) => event.type === 'request-coalesced')
+    ).toHaveLength(2);
+    handler.destroy();
+  });
+
+  it('keeps requests apart by method, selected headers and opt-out', async () => {
+    const handler = await createHandler();
+
+    const responses = [
+      handler.smartFetch('/feed'),
+      handler.smartFetch('/feed', { headers: { Accept: 'text/csv' } }),
+      handler.smartFetch('/feed', { headers: { 'X-Trace': '1' } }),
+      handler.smartFetch('/feed', { method: 'POST' }),
+      handler.smartFetch('/feed', {}, undefined, { coalesce: false }),
+    ];
+    release();
+    await Promise.all(responses);
+
+    expect(global.fetch).toHaveBeenCalledTimes(4);
+    handler.destroy();
+  });
+
+  it('sends callers with their own options on their own', async () => {
+    const handler = await createHandler();
+
+    const shared = handler.smartFetch('/feed');
+    const withDeadline = handler
+      .smartFetch('/feed', {}, undefined, { deadline: 50 })
+      .catch((e) => e);
+    const withRetry = handler.smartFetch('/feed', {}, { maxAttempts: 2 });
+
+    expect(await withDeadline).toBeInstanceOf(TimeoutError);
+    release();
+    await Promise.all([shared, withRetry]);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    handler.destroy();
+  });
+
+  it('queues duplicates once while offline', async () => {
+    (global as any).navigator = { onLine: false };
+    const handler = await createHandler();
+
+    const responses = [
+      handler.smartFetch('/feed'),
+      handler.smartFetch('/feed'),
+    ];
+    await flush();
+    expect(handler.getQueuedRequests()).toHaveLength(1);
+
+    release();
+    emit('online');
+    const bodies = await Promise.all(
+      responses.map(async (response) => (await response).text())
+    );
+
+    expect(bodies).toEqual(['body of /feed', 'body of /feed']);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    handler.destroy();
+  });
+
+  it('drops the queued duplicate once every caller aborted', async () => {
+    (global as any).navigator = { onLine: false };
+    const handler = await createHandler();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const responses = [
+      handler.smartFetch('/feed', { signal: first.signal }),
+      handler.smartFetch('/feed', { signal: second.signal }),
+    ];
+    await flush();
+    first.abort();
+    await expect(responses[0]).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(handler.getQueuedRequests()).toHaveLength(1);
+
+    second.abort();
+    await expect(responses[1]).rejects.toBeInstanceOf(RequestAbortedError);
+    await flush();
+    expect(handler.getQueuedRequests()).toEqual([]);
+    handler.destroy();
+  });
+
+  it('lets each caller abort without cancelling the others', async () => {
+    const handler = await createHandler();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const aborted = handler.smartFetch('/feed', { signal: first.signal });
+    const kept = handler.smartFetch('/feed', { signal: second.signal });
+    first.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(signals[0]?.aborted).toBe(false);
+
+    release();
+    expect(await (await kept).text()).toBe('body of /feed');
+    handler.destroy();
+  });
+
+  it('cancels the shared fetch once every caller aborted', async () => {
+    const handler = await createHandler();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const responses = [
+      handler.smartFetch('/feed', { signal: first.signal }),
+      handler.smartFetch('/feed', { signal: second.signal }),
+    ];
+    await flush();
+    first.abort();
+    second.abort();
+
+    await expect(responses[0]).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(responses[1]).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(signals[0]?.aborted).toBe(true);
+
+    release();
+    await handler.smartFetch('/feed');
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    handler.destroy();
+  });
+});
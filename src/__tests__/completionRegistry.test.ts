@@ -0,0 +1,141 @@
+import { CompletionRegistry } from '../core/completionRegistry';
+import { NetworkHandler } from '../core/networkHandler';
+import { QueueFullError, RequestCancelledError } from '../core/errors';
+import type { NetworkEvent } from '../types';
+import { emit, flush, useBrowserStubs } from './helpers';
+
+describe('CompletionRegistry', () => {
+  it('settles each request exactly once', async () => {
+    const registry = new CompletionRegistry<string>();
+    const first = registry.register('a');
+
+    expect(registry.register('a')).toBe(first);
+    expect(registry.resolve('a', 'done')).toBe(true);
+    expect(registry.resolve('a', 'again')).toBe(false);
+    expect(registry.reject('a', new Error('late'))).toBe(false);
+    await expect(first).resolves.toBe('done');
+    expect(registry.has('a')).toBe(false);
+  });
+
+  it('does not report rejections nobody listened to yet', () => {
+    const registry = new CompletionRegistry<string>();
+    registry.register('a');
+    expect(registry.reject('a', new Error('cancelled'))).toBe(true);
+    expect(registry.size()).toBe(0);
+  });
+});
+
+describe('NetworkHandler queue drain', () => {
+  useBrowserStubs(false);
+  let sent: string[];
+
+  beforeEach(() => {
+    sent = [];
+    global.fetch = jest.fn(async (url: any) => {
+      sent.push(String(url));
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return new Response(String(url));
+    }) as any;
+  });
+
+  const createHandler = async () => {
+    // Without the debounce, every online/offline event takes effect
+    const handler = new NetworkHandler({ concurrency: 2, stability: false });
+    await flush();
+    return handler;
+  };
+
+  it('sends each request exactly once while the network flaps', async () => {
+    const handler = await createHandler();
+    const events: NetworkEvent[] = [];
+    handler.onTelemetry((event) => events.push(event));
+    const urls = ['/1', '/2', '/3', '/4', '/5', '/6'];
+    const responses = urls.map((url) =>
+      handler.smartFetch(url, { method: 'POST' })
+    );
+    await flush();
+    expect(sent).toEqual([]);
+
+    emit('online');
+    emit('offline');
+    emit('online');
+    await flush(2);
+    emit('offline');
+    await flush(2);
+    emit('online');
+    emit('online');
+
+    const bodies = await Promise.all(
+      responses.map(async (response) => (await response).text())
+    );
+    expect(bodies).toEqual(urls);
+    expect([...sent].sort()).toEqual(urls);
+    expect(handler.getQueuedRequests()).toEqual([]);
+    expect(
+      events
+        .filter((event) => event.type === 'online' || event.type === 'offline')
+        .map((event) => event.type)
+    ).toEqual(['online', 'offline', 'online', 'offline', 'online']);
+    handler.destroy();
+  });
+
+  it('keeps requests queued while offline and sends them once back', async () => {
+    const handler = await createHandler();
+    const response = handler.smartFetch('/notes', { method: 'POST' });
+    await flush();
+
+    emit('online');
+    emit('offline');
+    await flush(20);
+    expect(sent.length).toBeLessThanOrEqual(1);
+
+    emit('online');
+    expect(await (await response).text()).toBe('/notes');
+    await flush(20);
+    expect(sent).toEqual(['/notes']);
+    handler.destroy();
+  });
+
+  it('rejects the request a full queue drops', async () => {
+    const dropNewest = new NetworkHandler({
+      queue: { maxSize: 1, policy: 'drop-newest' },
+    });
+    const dropOldest = new NetworkHandler({
+      queue: { maxSize: 1, policy: 'drop-oldest' },
+    });
+    await flush();
+
+    dropNewest.smartFetch('/kept', { method: 'POST' });
+    const newest = dropNewest.smartFetch('/dropped', { method: 'POST' });
+    await expect(newest).rejects.toBeInstanceOf(QueueFullError);
+
+    const oldest = dropOldest.smartFetch('/dropped', { method: 'POST' });
+    await flush();
+    dropOldest.smartFetch('/kept', { method: 'POST' });
+    await expect(oldest).rejects.toBeInstanceOf(QueueFullError);
+
+    expect(dropNewest.getQueuedRequests().map((req) => req.url)).toEqual([
+      '/kept',
+    ]);
+    expect(dropOldest.getQueuedRequests().map((req) => req.url)).toEqual([
+      '/kept',
+    ]);
+    dropNewest.destroy();
+    dropOldest.destroy();
+  });
+
+  it('rejects every queued request when the queue is cleared', async () => {
+    const handler = await createHandler();
+    const responses = ['/a', '/b'].map((url) =>
+      handler.smartFetch(url, { method: 'POST' })
+    );
+    await flush();
+
+    await handler.clearQueue();
+
+    for (const response of responses) {
+      await expect(response).rejects.toBeInstanceOf(RequestCancelledError);
+    }
+    handler.destroy();
+  });
+});
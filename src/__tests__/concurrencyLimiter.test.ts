@@ -0,0 +1,71 @@
+import { ConcurrencyLimiter } from '../core/concurrencyLimiter';
+import { flush } from './helpers';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe('ConcurrencyLimiter', () => {
+  it('never runs more tasks than the limit', async () => {
+    let limit = 2;
+    const limiter = new ConcurrencyLimiter(() => limit);
+    const tasks = [deferred(), deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    tasks.forEach((task, i) =>
+      limiter.run(() => {
+        started.push(i);
+        return task.promise;
+      })
+    );
+    expect(started).toEqual([0, 1]);
+
+    limit = 3;
+    limiter.refresh();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[0]!.resolve();
+    await flush(1);
+    expect(started).toEqual([0, 1, 2, 3]);
+    expect(limiter.activeCount()).toBe(3);
+  });
+
+  it('runs tasks of a lane one at a time and in order', async () => {
+    const limiter = new ConcurrencyLimiter(() => 6);
+    const first = deferred();
+    const started: string[] = [];
+
+    limiter.run(() => {
+      started.push('serial-1');
+      return first.promise;
+    }, 'serial');
+    limiter.run(async () => {
+      started.push('serial-2');
+    }, 'serial');
+    limiter.run(async () => {
+      started.push('free');
+    });
+
+    expect(started).toEqual(['serial-1', 'free']);
+    expect(limiter.isLaneBusy('serial')).toBe(true);
+
+    first.resolve();
+    await flush(1);
+    expect(started).toEqual(['serial-1', 'free', 'serial-2']);
+  });
+
+  it('frees the slot when a task throws', async () => {
+    const limiter = new ConcurrencyLimiter(() => 1);
+    await expect(
+      limiter.run(() => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    await flush(1);
+    expect(limiter.hasCapacity()).toBe(true);
+  });
+});
@@ -0,0 +1,189 @@
+import { NetworkHandler } from '../core/networkHandler';
+import { DeadLetterQueue } from '../core/deadLetterQueue';
+import { QueueFullError } from '../core/errors';
+import type { DeadLetter, NetworkEvent } from '../types';
+import { emit, flush, MemoryStorage, useBrowserStubs } from './helpers';
+
+describe('dead-letter queue', () => {
+  useBrowserStubs();
+  let storage: MemoryStorage;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    await storage.setItem(
+      'network-smart-handler-queue',
+      JSON.stringify([
+        {
+          id: 'note',
+          url: '/notes',
+          method: 'POST',
+          timestamp: 1,
+          encodedBody: { codec: 'text', data: 'offline note' },
+        },
+      ])
+    );
+  });
+
+  const createHandler = () =>
+    new NetworkHandler(
+      {
+        queue: { persistToStorage: true },
+        retry: { maxAttempts: 2, baseDelay: 0 },
+      },
+      storage
+    );
+
+  it('keeps failed replays with their error and attempt history', async () => {
+    global.fetch = jest.fn(async () => {
+      throw new TypeError('Network request failed');
+    }) as any;
+
+    const handler = createHandler();
+    const events: NetworkEvent[] = [];
+    handler.onTelemetry((event) => events.push(event));
+    await flush();
+
+    const [letter] = handler.getDeadLetters();
+    expect(letter).toMatchObject({
+      id: 'note',
+      request: { url: '/notes', body: 'offline note' },
+      error: {
+        name: 'NetworkUnavailableError',
+        message: 'Network request failed',
+      },
+      queuedAt: 1,
+    });
+    expect(letter?.attempts.map((attempt) => attempt.attempt)).toEqual([1, 2]);
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: 'request-dead-lettered',
+        data: expect.objectContaining({ requestId: 'note', attempts: 2 }),
+      })
+    );
+    handler.destroy();
+
+    // Survives a restart
+    const restarted = createHandler();
+    await flush();
+    expect(restarted.getDeadLetters()[0]?.request.body).toBe('offline note');
+    expect(await restarted.exportDeadLetters()).toEqual([
+      expect.objectContaining({
+        request: expect.objectContaining({
+          encodedBody: { codec: 'text', data: 'offline note' },
+        }),
+      }),
+    ]);
+    restarted.destroy();
+  });
+
+  it('keeps requests rejected by the server and retries them on demand', async () => {
+    let status = 422;
+    const bodies: string[] = [];
+    global.fetch = jest.fn(async (_url: any, init?: RequestInit) => {
+      bodies.push(init?.body as string);
+      return new Response('', { status });
+    }) as any;
+
+    const handler = createHandler();
+    await flush();
+    expect(handler.getDeadLetters()[0]?.error).toMatchObject({
+      name: 'HttpError',
+      status: 422,
+    });
+
+    status = 201;
+    const response = await handler.retryDeadLetter('note');
+    expect(response.status).toBe(201);
+    expect(bodies).toEqual(['offline note', 'offline note']);
+    expect(handler.getDeadLetters()).toEqual([]);
+    handler.destroy();
+  });
+
+  it('discards dead letters', async () => {
+    global.fetch = jest.fn(
+      async () => new Response('', { status: 400 })
+    ) as any;
+
+    const handler = createHandler();
+    await flush();
+    expect(await handler.discardDeadLetter('note')).toBe(true);
+    expect(handler.getDeadLetters()).toEqual([]);
+    expect(storage.data.get('network-smart-handler-dead-letters')).toBe('[]');
+    handler.destroy();
+  });
+
+  it('keeps the letter when queueing it again fails', async () => {
+    global.fetch = jest.fn(
+      async () => new Response('', { status: 400 })
+    ) as any;
+    const handler = new NetworkHandler(
+      {
+        queue: { persistToStorage: true, maxSize: 1, policy: 'reject' },
+        retry: { maxAttempts: 1 },
+      },
+      storage
+    );
+    await flush();
+
+    // Go offline so the next request stays queued and fills the queue
+    emit('offline');
+    await flush();
+    handler.smartFetch('/other', { method: 'POST' }).catch(() => undefined);
+    await flush();
+
+    await expect(handler.retryDeadLetter('note')).rejects.toBeInstanceOf(
+      QueueFullError
+    );
+    expect(handler.getDeadLetters().map((letter) => letter.id)).toEqual([
+      'note',
+    ]);
+    handler.destroy();
+  });
+
+  it('retries letters whose expiry has passed since', async () => {
+    await storage.setItem(
+      'network-smart-handler-queue',
+      JSON.stringify([
+        {
+          id: 'note',
+          url: '/notes',
+          method: 'POST',
+          timestamp: Date.now(),
+          expiresAt: Date.now() + 30,
+          encodedBody: { codec: 'text', data: 'offline note' },
+        },
+      ])
+    );
+    let status = 400;
+    global.fetch = jest.fn(async () => new Response('', { status })) as any;
+
+    const handler = createHandler();
+    await flush();
+    expect(handler.getDeadLetters()).toHaveLength(1);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    status = 201;
+    expect((await handler.retryDeadLetter('note')).status).toBe(201);
+    handler.destroy();
+  });
+});
+
+describe('DeadLetterQueue', () => {
+  it('reports letters dropped beyond maxSize', async () => {
+    const letters = new DeadLetterQueue({ maxSize: 1 });
+    const evicted: DeadLetter[] = [];
+    letters.onEvict((dropped) => evicted.push(...dropped));
+    const request = (id: string) => ({
+      id,
+      url: `/${id}`,
+      method: 'POST',
+      timestamp: 0,
+    });
+
+    await letters.add(request('a'), new Error('400'), []);
+    await letters.add(request('b'), new Error('400'), []);
+
+    expect(evicted.map((letter) => letter.id)).toEqual(['a']);
+    expect(letters.getAll().map((letter) => letter.id)).toEqual(['b']);
+  });
+});
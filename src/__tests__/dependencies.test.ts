@@ -0,0 +1,197 @@
+import { NetworkHandler } from '../core/networkHandler';
+import { DependencyFailedError } from '../core/errors';
+import { fillPlaceholders } from '../utils/placeholders';
+import type { NetworkEvent } from '../types';
+import { flush, MemoryStorage, useBrowserStubs } from './helpers';
+
+const backlog = (storage: MemoryStorage, requests: object[]) =>
+  storage.setItem(
+    'network-smart-handler-queue',
+    JSON.stringify(
+      requests.map((req, i) => ({ method: 'POST', timestamp: i, ...req }))
+    )
+  );
+
+describe('fillPlaceholders', () => {
+  const result = { data: { id: 42, slug: 'draft' } };
+
+  it('interpolates strings and keeps raw values inside objects', () => {
+    expect(
+      fillPlaceholders('/notes/{{create.data.id}}', 'create', result)
+    ).toBe('/notes/42');
+    expect(
+      fillPlaceholders(
+        { noteId: '{{create.data.id}}', tags: ['{{ create.data.slug }}'] },
+        'create',
+        result
+      )
+    ).toEqual({ noteId: 42, tags: ['draft'] });
+  });
+
+  it('leaves other and unresolved placeholders alone', () => {
+    expect(
+      fillPlaceholders('{{other.id}}/{{create.missing}}', 'create', result)
+    ).toBe('{{other.id}}/{{create.missing}}');
+  });
+});
+
+describe('request dependencies', () => {
+  useBrowserStubs();
+
+  it('sends dependents after their parent with values from its response', async () => {
+    let finishCreate!: () => void;
+    const sent: Array<{ url: string; body?: string }> = [];
+    global.fetch = jest.fn(async (url: any, init?: RequestInit) => {
+      sent.push({ url: String(url), body: init?.body as string });
+      if (url === '/notes') {
+        await new Promise<void>((resolve) => {
+          finishCreate = resolve;
+        });
+        return Response.json({ id: 42 }, { status: 201 });
+      }
+      return new Response('ok');
+    }) as any;
+
+    const handler = new NetworkHandler({}, new MemoryStorage());
+    await flush();
+
+    const create = handler.smartFetch('/notes', { method: 'POST' }, undefined, {
+      id: 'create',
+    });
+    const patch = handler.smartFetch(
+      '/notes/{{create.id}}',
+      { method: 'PATCH', body: JSON.stringify({ parent: '{{create.id}}' }) },
+      undefined,
+      { dependsOn: ['create'] }
+    );
+    await flush();
+    expect(sent.map((req) => req.url)).toEqual(['/notes']);
+
+    finishCreate();
+    await Promise.all([create, patch]);
+    expect(sent).toEqual([
+      { url: '/notes', body: undefined },
+      { url: '/notes/42', body: '{"parent":"42"}' },
+    ]);
+    handler.destroy();
+  });
+
+  it('replays a group strictly in order', async () => {
+    const storage = new MemoryStorage();
+    await backlog(storage, [
+      { id: 'a', url: '/a', lane: 'notes' },
+      { id: 'b', url: '/b', lane: 'notes' },
+      { id: 'c', url: '/c' },
+    ]);
+    let finishA!: () => void;
+    const sent: string[] = [];
+    global.fetch = jest.fn(async (url: any) => {
+      sent.push(String(url));
+      if (url === '/a') {
+        await new Promise<void>((resolve) => {
+          finishA = resolve;
+        });
+      }
+      return new Response('ok');
+    }) as any;
+
+    const handler = new NetworkHandler(
+      { queue: { persistToStorage: true } },
+      storage
+    );
+    await flush();
+    expect(sent).toEqual(['/a', '/c']);
+
+    finishA();
+    await flush();
+    expect(sent).toEqual(['/a', '/c', '/b']);
+    handler.destroy();
+  });
+
+  it('cancels dependents of a failed parent transitively', async () => {
+    const storage = new MemoryStorage();
+    await backlog(storage, [
+      { id: 'create', url: '/notes' },
+      { id: 'patch', url: '/notes/{{create.id}}', dependsOn: ['create'] },
+      { id: 'share', url: '/share', dependsOn: ['patch'] },
+    ]);
+    const sent: string[] = [];
+    global.fetch = jest.fn(async (url: any) => {
+      sent.push(String(url));
+      return new Response('invalid', { status: 400 });
+    }) as any;
+
+    const handler = new NetworkHandler(
+      { queue: { persistToStorage: true } },
+      storage
+    );
+    const events: NetworkEvent[] = [];
+    handler.onTelemetry((event) => events.push(event));
+    await flush();
+
+    expect(sent).toEqual(['/notes']);
+    expect(handler.getQueuedRequests()).toEqual([]);
+    expect(
+      events
+        .filter((event) => event.type === 'request-cancelled')
+        .map((event) => event.data.requestId)
+    ).toEqual(['patch', 'share']);
+    expect(storage.data.get('network-smart-handler-queue')).toBe('[]');
+    handler.destroy();
+  });
+
+  it('parks dependents until they are resumed', async () => {
+    const storage = new MemoryStorage();
+    await backlog(storage, [
+      { id: 'create', url: '/notes' },
+      { id: 'patch', url: '/notes/1', dependsOn: ['create'] },
+    ]);
+    const sent: string[] = [];
+    global.fetch = jest.fn(async (url: any) => {
+      sent.push(String(url));
+      return new Response('', { status: url === '/notes' ? 400 : 200 });
+    }) as any;
+
+    const handler = new NetworkHandler(
+      { queue: { persistToStorage: true, onDependencyFailure: 'park' } },
+      storage
+    );
+    const events: NetworkEvent[] = [];
+    handler.onTelemetry((event) => events.push(event));
+    await flush();
+
+    expect(sent).toEqual(['/notes']);
+    expect(handler.getQueuedRequests()).toEqual([
+      expect.objectContaining({ id: 'patch', parked: true }),
+    ]);
+    expect(events.map((event) => event.type)).toContain('request-parked');
+
+    await handler.resumeParkedRequest('patch');
+    await flush();
+    expect(sent).toEqual(['/notes', '/notes/1']);
+    handler.destroy();
+  });
+
+  it('rejects queued callers of cancelled dependents', async () => {
+    global.fetch = jest.fn(async () => {
+      throw new TypeError('Network request failed');
+    }) as any;
+
+    const handler = new NetworkHandler({ retry: { maxAttempts: 1 } });
+    await flush();
+
+    const create = handler.smartFetch('/notes', { method: 'POST' }, undefined, {
+      id: 'create',
+    });
+    const patch = handler.smartFetch(
+      '/notes/{{create.id}}',
+      { method: 'PATCH' },
+      undefined,
+      { dependsOn: ['create'] }
+    );
+
+    await expect(create).rejects.toThrow('Network request failed');
+    await expect(patch).rejects.toBeInstanceOf(DependencyFailedError);
+    handler.destroy();
+  });
+});
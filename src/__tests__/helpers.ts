@@ -0,0 +1,64 @@
+import type { StorageAdapter } from '../types';
+
+/**
+ * Let pending timers and promises run
+ */
+export const flush = async (times = 10) => {
+  for (let i = 0; i < times; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+};
+
+/**
+ * Storage adapter keeping everything in a map
+ */
+export class MemoryStorage implements StorageAdapter {
+  data = new Map<string, string>();
+
+  async getItem(key: string) {
+    return this.data.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string) {
+    this.data.set(key, value);
+  }
+
+  async removeItem(key: string) {
+    this.data.delete(key);
+  }
+
+  async clear() {
+    this.data.clear();
+  }
+}
+
+/**
+ * Stub the browser globals the web detector reads before each test of the
+ * calling describe block, and restore them and global.fetch after it
+ */
+export function useBrowserStubs(online = true) {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    (global as any).navigator = { onLine: online };
+    (global as any).addEventListener = jest.fn();
+    (global as any).removeEventListener = jest.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    delete (global as any).navigator;
+    delete (global as any).addEventListener;
+    delete (global as any).removeEventListener;
+  });
+}
+
+/**
+ * Fire the window listener the detector registered for an event
+ */
+export const emit = (type: 'online' | 'offline') => {
+  (navigator as any).onLine = type === 'online';
+  (global.addEventListener as jest.Mock).mock.calls
+    .filter(([event]) => event === type)
+    .forEach(([, listener]) => listener());
+};
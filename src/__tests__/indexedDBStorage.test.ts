@@ -0,0 +1,83 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { IndexedDBStorageAdapter } from '../utils/indexedDBStorage';
+import { RequestQueue } from '../core/requestQueue';
+import type { QueueConfig } from '../types';
+
+describe('IndexedDBStorageAdapter', () => {
+  let storage: IndexedDBStorageAdapter;
+
+  beforeEach(() => {
+    storage = new IndexedDBStorageAdapter({ indexedDB: new IDBFactory() });
+  });
+
+  afterEach(async () => {
+    await storage.close();
+  });
+
+  it('stores key-value items', async () => {
+    await storage.setItem('token', 'abc');
+    expect(await storage.getItem('token')).toBe('abc');
+
+    await storage.removeItem('token');
+    expect(await storage.getItem('token')).toBeNull();
+  });
+
+  it('keeps records of each queue separate', async () => {
+    await storage.putRecord('a', {
+      id: '1',
+      url: '/1',
+      method: 'GET',
+      timestamp: 1,
+    });
+    await storage.putRecord('b', {
+      id: '1',
+      url: '/2',
+      method: 'GET',
+      timestamp: 2,
+    });
+
+    await storage.clearRecords('a');
+    expect(await storage.getRecords('a')).toEqual([]);
+    expect((await storage.getRecords('b')).map((r) => r.url)).toEqual(['/2']);
+  });
+
+  it('writes queue changes as individual records', async () => {
+    const config: QueueConfig = {
+      policy: 'persist',
+      persistToStorage: true,
+      priority: true,
+    };
+    const setItem = jest.spyOn(storage, 'setItem');
+    const queue = new RequestQueue(config, storage);
+
+    await queue.enqueue({
+      url: '/low',
+      method: 'POST',
+      body: 'l',
+      priority: 1,
+    });
+    const highId = await queue.enqueue({
+      url: '/high',
+      method: 'POST',
+      body: new Uint8Array([1, 2]),
+      priority: 5,
+    });
+    await queue.enqueue({ url: '/mid', method: 'POST', priority: 3 });
+    await queue.remove(highId);
+    await queue.enqueue({ url: '/low-2', method: 'POST', priority: 1 });
+
+    expect(setItem).not.toHaveBeenCalled();
+    expect(
+      await storage.getRecords('network-smart-handler-queue')
+    ).toHaveLength(3);
+
+    const restored = new RequestQueue(config, storage);
+    await restored.whenLoaded();
+    expect(restored.getAll().map((r) => r.url)).toEqual([
+      '/mid',
+      '/low',
+      '/low-2',
+    ]);
+    expect(restored.getAll()[1]?.body).toBe('l');
+  });
+});
@@ -0,0 +1,137 @@
+import { NetworkHandler } from '../core/networkHandler';
+import { RetryRequestError } from '../core/errors';
+import type { MiddlewareRequest, StorageAdapter } from '../types';
+import { flush, MemoryStorage, useBrowserStubs } from './helpers';
+
+describe('middleware', () => {
+  useBrowserStubs();
+
+  beforeEach(() => {
+    global.fetch = jest.fn(async () => new Response('ok')) as any;
+  });
+
+  const createHandler = async (storage?: StorageAdapter) => {
+    const handler = new NetworkHandler(
+      {
+        queue: { persistToStorage: !!storage },
+        retry: { maxAttempts: 3, baseDelay: 0 },
+      },
+      storage
+    );
+    await flush();
+    return handler;
+  };
+
+  it('runs in order and passes rewritten requests on', async () => {
+    const handler = await createHandler();
+    const steps: string[] = [];
+    handler.use(async (request, next) => {
+      steps.push('auth');
+      request.options.headers.Authorization = 'Bearer token';
+      const response = await next();
+      steps.push('auth done');
+      return response;
+    });
+    handler.use(async (request, next) => {
+      steps.push('sign');
+      return next({ ...request, url: `${request.url}?signed=1` });
+    });
+
+    await handler.smartFetch('/notes', { headers: { Accept: 'text/plain' } });
+
+    expect(steps).toEqual(['auth', 'sign', 'auth done']);
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/notes?signed=1',
+      expect.objectContaining({
+        headers: { Accept: 'text/plain', Authorization: 'Bearer token' },
+      })
+    );
+    handler.destroy();
+  });
+
+  it('short-circuits with its own response', async () => {
+    const handler = await createHandler();
+    handler.use(async () => new Response('cached'));
+
+    const response = await handler.smartFetch('/notes');
+
+    expect(await response.text()).toBe('cached');
+    expect(global.fetch).not.toHaveBeenCalled();
+    handler.destroy();
+  });
+
+  it('runs again on every attempt', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce(new Response('', { status: 503 }))
+      .mockResolvedValueOnce(new Response('ok')) as any;
+    const handler = await createHandler();
+    const seen: MiddlewareRequest[] = [];
+    let token = 0;
+    handler.use(async (request, next) => {
+      seen.push(request);
+      request.options.headers.Authorization = `Bearer ${++token}`;
+      return next();
+    });
+
+    await handler.smartFetch('/notes');
+
+    expect(seen.map((request) => request.attempt)).toEqual([1, 2]);
+    expect(
+      (global.fetch as jest.Mock).mock.calls.map(
+        ([, init]) => init.headers.Authorization
+      )
+    ).toEqual(['Bearer 1', 'Bearer 2']);
+    handler.destroy();
+  });
+
+  it('retries when middleware throws RetryRequestError', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce(new Response('', { status: 401 }))
+      .mockResolvedValueOnce(new Response('ok')) as any;
+    const handler = await createHandler();
+    handler.use(async (_request, next) => {
+      const response = await next();
+      if (response.status === 401) {
+        throw new RetryRequestError('Token expired');
+      }
+      return response;
+    });
+
+    const response = await handler.smartFetch('/notes');
+
+    expect(response.status).toBe(200);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    handler.destroy();
+  });
+
+  it('runs for requests replayed from the queue and can be removed', async () => {
+    const storage = new MemoryStorage();
+    await storage.setItem(
+      'network-smart-handler-queue',
+      JSON.stringify([
+        { id: 'a', url: '/forms/1', method: 'POST', timestamp: 1 },
+      ])
+    );
+    const handler = new NetworkHandler(
+      { queue: { persistToStorage: true } },
+      storage
+    );
+    const seen: MiddlewareRequest[] = [];
+    const remove = handler.use(async (request, next) => {
+      seen.push(request);
+      return next();
+    });
+    await flush();
+
+    expect(seen).toEqual([
+      expect.objectContaining({ requestId: 'a', queued: true, attempt: 1 }),
+    ]);
+
+    remove();
+    await handler.smartFetch('/notes');
+    expect(seen).toHaveLength(1);
+    handler.destroy();
+  });
+});
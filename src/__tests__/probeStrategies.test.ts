@@ -0,0 +1,176 @@
+import { WebNetworkDetector } from '../core/networkDetector';
+import {
+  combineProbes,
+  connectionProbe,
+  endpointProbe,
+  medianProbe,
+} from '../core/probeStrategies';
+import type { ProbeContext, ProbeStrategy, Transport } from '../types';
+import { flush, useBrowserStubs } from './helpers';
+
+/**
+ * Fake transport answering each URL with a fixed status and body
+ */
+const transportFor = (statuses: Record<string, number>) =>
+  jest.fn<ReturnType<Transport>, Parameters<Transport>>(async (url) => {
+    const status = statuses[url] ?? 200;
+    if (status === 0) {
+      throw new TypeError('Network request failed');
+    }
+    return new Response(status === 200 ? 'x'.repeat(1000) : null, { status });
+  });
+
+const context = (transport: Transport): ProbeContext => ({
+  transport,
+  respectDataSaver: false,
+});
+
+const fixed = (name: string, latency?: number): ProbeStrategy => ({
+  name,
+  probe: async () => (latency === undefined ? undefined : { latency }),
+});
+
+describe('probe strategies', () => {
+  afterEach(() => {
+    delete (global as any).navigator;
+  });
+
+  it('times the health endpoint and downloads it only for throughput', async () => {
+    const transport = transportFor({});
+    // HEAD and GET each take 10ms
+    const now = jest.spyOn(performance, 'now');
+    [0, 10, 20, 30].forEach((time) => now.mockReturnValueOnce(time));
+
+    const result = await endpointProbe({
+      url: '/health',
+      throughput: true,
+    }).probe(context(transport));
+
+    expect(result).toEqual({ latency: 10, throughput: 100000 });
+    expect(transport.mock.calls.map(([, init]) => init?.method)).toEqual([
+      'HEAD',
+      'GET',
+    ]);
+
+    transport.mockClear();
+    await endpointProbe({ url: '/health', throughput: true }).probe({
+      transport,
+      respectDataSaver: true,
+    });
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves throughput out when the download fails or is too fast to time', async () => {
+    const now = jest.spyOn(performance, 'now');
+    [100, 100, 100, 100].forEach((time) => now.mockReturnValueOnce(time));
+
+    expect(
+      await endpointProbe({ url: '/health', throughput: true }).probe(
+        context(transportFor({}))
+      )
+    ).toEqual({ latency: 0, throughput: undefined });
+
+    let calls = 0;
+    const headOnly = jest.fn<ReturnType<Transport>, Parameters<Transport>>(
+      async () => {
+        if (calls++ > 0) {
+          throw new TypeError('Network request failed');
+        }
+        return new Response(null);
+      }
+    );
+    const result = await endpointProbe({
+      url: '/health',
+      throughput: true,
+    }).probe(context(headOnly));
+    expect(result?.latency).toBeLessThan(Infinity);
+    expect(result?.throughput).toBeUndefined();
+  });
+
+  it('reports failing or non-2xx endpoints as unreachable', async () => {
+    const transport = transportFor({ '/down': 0, '/portal': 302 });
+
+    expect(
+      await endpointProbe({ url: '/down' }).probe(context(transport))
+    ).toEqual({ latency: Infinity });
+    expect(
+      await endpointProbe({ url: '/portal' }).probe(context(transport))
+    ).toEqual({ latency: Infinity });
+  });
+
+  it('takes the median so one blocked endpoint does not decide', async () => {
+    const transport = transportFor({ '/c': 0 });
+
+    const result = await medianProbe(['/a', '/b', '/c']).probe(
+      context(transport)
+    );
+
+    expect(result?.latency).toBeLessThan(Infinity);
+    expect(transport).toHaveBeenCalledTimes(3);
+  });
+
+  it('reads rtt and downlink from the Network Information API', async () => {
+    (global as any).navigator = { connection: { rtt: 150, downlink: 8 } };
+    expect(await connectionProbe().probe(context(transportFor({})))).toEqual({
+      latency: 150,
+      throughput: 1e6,
+    });
+
+    (global as any).navigator = {};
+    expect(
+      await connectionProbe().probe(context(transportFor({})))
+    ).toBeUndefined();
+  });
+
+  it('combines strategies by fallback or median', async () => {
+    const broken: ProbeStrategy = {
+      name: 'broken',
+      probe: async () => {
+        throw new Error('probe crashed');
+      },
+    };
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const transport = transportFor({});
+
+    expect(
+      await combineProbes([broken, fixed('silent'), fixed('a', 80)]).probe(
+        context(transport)
+      )
+    ).toEqual({ latency: 80 });
+    expect(
+      await combineProbes(
+        [fixed('a', 80), fixed('b', 400), fixed('c', 100)],
+        'median'
+      ).probe(context(transport))
+    ).toEqual({ latency: 100, throughput: undefined });
+    warn.mockRestore();
+  });
+});
+
+describe('WebNetworkDetector probes', () => {
+  useBrowserStubs();
+
+  it('derives quality from the configured strategy', async () => {
+    const detector = new WebNetworkDetector({
+      enableQualityTesting: true,
+      probe: [fixed('silent'), fixed('slow', 1500)],
+    });
+
+    const status = await detector.getStatus();
+
+    expect(status.quality).toBe('weak');
+    expect(status.latency).toBe(1500);
+    detector.stopMonitoring();
+  });
+
+  it('keeps the quality when no strategy reports', async () => {
+    const detector = new WebNetworkDetector({
+      enableQualityTesting: true,
+      probe: fixed('silent'),
+    });
+    await flush();
+
+    expect((await detector.getStatus()).quality).toBe('medium');
+    detector.stopMonitoring();
+  });
+});
@@ -0,0 +1,302 @@
+import { NetworkHandler } from '../core/networkHandler';
+import { RequestQueue } from '../core/requestQueue';
+import { RequestAbortedError, RequestCancelledError } from '../core/errors';
+import type { NetworkEvent } from '../types';
+import { flush, MemoryStorage, useBrowserStubs } from './helpers';
+
+const storedUrls = (storage: MemoryStorage) =>
+  JSON.parse(storage.data.get('network-smart-handler-queue') || '[]').map(
+    (req: { url: string }) => req.url
+  );
+
+describe('queue control', () => {
+  useBrowserStubs();
+  let sent: string[];
+  let storage: MemoryStorage;
+  let events: NetworkEvent[];
+
+  const createHandler = async (online: boolean, priority = false) => {
+    (navigator as any).onLine = online;
+    const handler = new NetworkHandler(
+      { queue: { persistToStorage: true, priority } },
+      storage
+    );
+    handler.onTelemetry((event) => events.push(event));
+    await flush();
+    return handler;
+  };
+
+  beforeEach(() => {
+    sent = [];
+    storage = new MemoryStorage();
+    events = [];
+    global.fetch = jest.fn(async (url: any) => {
+      sent.push(String(url));
+      return new Response('ok');
+    }) as any;
+  });
+
+  it('cancels a queued request', async () => {
+    const handler = await createHandler(false);
+    const upload = handler.smartFetch('/uploads', { method: 'POST' });
+    await flush();
+    const [request] = handler.getQueuedRequests();
+
+    expect(await handler.cancelRequest(request!.id)).toBe(true);
+    await expect(upload).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(storedUrls(storage)).toEqual([]);
+    expect(events.map((event) => event.type)).toContain('request-cancelled');
+    expect(await handler.cancelRequest(request!.id)).toBe(false);
+    handler.destroy();
+  });
+
+  it('gives each queue entry its own idempotency key', async () => {
+    const handler = await createHandler(false);
+    const save = () =>
+      handler
+        .smartFetch('/notes/1', { method: 'PUT' }, undefined, {
+          dedupeKey: 'save-note-1',
+          dedupeStrategy: 'replace',
+        })
+        .catch(() => undefined);
+    const idempotencyKey = () =>
+      handler.getQueuedRequests()[0]?.headers?.['Idempotency-Key'];
+
+    save();
+    await flush();
+    const first = idempotencyKey();
+    save();
+    await flush();
+
+    expect(first).toBeDefined();
+    expect(first).not.toBe('save-note-1');
+    expect(idempotencyKey()).toBe(first);
+
+    await handler.cancelRequest(handler.getQueuedRequests()[0]!.id);
+    save();
+    await flush();
+    expect(idempotencyKey()).not.toBe(first);
+    handler.destroy();
+  });
+
+  it("cancels a queued request when the caller's signal aborts", async () => {
+    const handler = await createHandler(false);
+    const controller = new AbortController();
+    const upload = handler.smartFetch('/uploads', {
+      method: 'POST',
+      signal: controller.signal,
+    });
+    await flush();
+    expect(storedUrls(storage)).toEqual(['/uploads']);
+
+    controller.abort();
+    await expect(upload).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(handler.getQueuedRequests()).toEqual([]);
+    expect(storedUrls(storage)).toEqual([]);
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: 'request-cancelled',
+        data: expect.objectContaining({ url: '/uploads', reason: 'aborted' }),
+      })
+    );
+
+    await expect(
+      handler.smartFetch('/uploads', { signal: controller.signal })
+    ).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(handler.getQueuedRequests()).toEqual([]);
+    handler.destroy();
+  });
+
+  it('only stops waiting when a collapsed duplicate aborts', async () => {
+    const handler = await createHandler(false);
+    const controller = new AbortController();
+    const options = { dedupeKey: 'save' };
+    const first = handler.smartFetch(
+      '/notes',
+      { method: 'PUT' },
+      undefined,
+      options
+    );
+    const second = handler.smartFetch(
+      '/notes',
+      { method: 'PUT', signal: controller.signal },
+      undefined,
+      options
+    );
+    await flush();
+
+    controller.abort();
+    await expect(second).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(handler.getQueuedRequests()).toHaveLength(1);
+    handler.destroy();
+    first.catch(() => undefined);
+  });
+
+  it('aborts a queued request during the retry backoff', async () => {
+    global.fetch = jest.fn(
+      async () => new Response('', { status: 503 })
+    ) as any;
+    const handler = await createHandler(false);
+    const controller = new AbortController();
+    const upload = handler.smartFetch(
+      '/uploads',
+      { method: 'POST', signal: controller.signal },
+      { maxAttempts: 3, baseDelay: 60000 }
+    );
+    await flush();
+    const [request] = handler.getQueuedRequests();
+
+    await handler.retryRequest(request!.id);
+    await flush();
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    controller.abort();
+    await expect(upload).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(handler.getDeadLetters()).toEqual([]);
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: 'request-cancelled',
+        data: expect.objectContaining({
+          requestId: request!.id,
+          reason: 'aborted',
+        }),
+      })
+    );
+    handler.destroy();
+  });
+
+  it('sends a request right away on retry', async () => {
+    const handler = await createHandler(false);
+    const upload = handler.smartFetch('/uploads', { method: 'POST' });
+    await flush();
+
+    await handler.retryRequest(handler.getQueuedRequests()[0]!.id);
+    expect(await (await upload).text()).toBe('ok');
+    expect(sent).toEqual(['/uploads']);
+    expect(handler.getQueuedRequests()).toEqual([]);
+    handler.destroy();
+  });
+
+  it('keeps dependency and lane order on retry', async () => {
+    const handler = await createHandler(false);
+    handler
+      .smartFetch('/items', { method: 'POST' }, undefined, { id: 'parent' })
+      .catch(() => undefined);
+    handler
+      .smartFetch('/items/{{parent.id}}', { method: 'PATCH' }, undefined, {
+        id: 'child',
+        dependsOn: ['parent'],
+      })
+      .catch(() => undefined);
+    handler
+      .smartFetch('/a', { method: 'POST' }, undefined, {
+        id: 'a',
+        serial: true,
+      })
+      .catch(() => undefined);
+    handler
+      .smartFetch('/b', { method: 'POST' }, undefined, {
+        id: 'b',
+        serial: true,
+      })
+      .catch(() => undefined);
+    await flush();
+
+    expect(await handler.retryRequest('child')).toBe(false);
+    expect(await handler.retryRequest('b')).toBe(false);
+    await flush();
+    expect(sent).toEqual([]);
+    expect(handler.getQueuedRequests().map((req) => req.id)).toEqual([
+      'parent',
+      'child',
+      'a',
+      'b',
+    ]);
+    handler.destroy();
+  });
+
+  it('pauses and resumes draining', async () => {
+    await storage.setItem(
+      'network-smart-handler-queue',
+      JSON.stringify([{ id: 'a', url: '/a', method: 'POST', timestamp: 1 }])
+    );
+    const handler = new NetworkHandler(
+      { queue: { persistToStorage: true } },
+      storage
+    );
+    handler.onTelemetry((event) => events.push(event));
+    handler.pauseQueue();
+    await flush();
+    expect(sent).toEqual([]);
+    expect(handler.isQueuePaused()).toBe(true);
+
+    handler.resumeQueue();
+    await flush();
+    expect(sent).toEqual(['/a']);
+    expect(events.map((event) => event.type)).toEqual(
+      expect.arrayContaining(['queue-paused', 'queue-resumed'])
+    );
+    handler.destroy();
+  });
+
+  it('reorders queued requests and persists the new order', async () => {
+    const handler = await createHandler(false, true);
+    ['/a', '/b', '/c'].forEach((url) =>
+      handler.smartFetch(url, { method: 'POST' }).catch(() => undefined)
+    );
+    await flush();
+    const [a, b, c] = handler.getQueuedRequests();
+
+    await handler.setRequestPriority(b!.id, 5);
+    await handler.moveToFront(c!.id);
+    expect(handler.getQueuedRequests().map((req) => req.url)).toEqual([
+      '/c',
+      '/b',
+      '/a',
+    ]);
+    expect(await handler.setRequestPriority('missing', 1)).toBe(false);
+    handler.destroy();
+
+    const restored = new RequestQueue(
+      { policy: 'persist', persistToStorage: true, priority: true },
+      storage
+    );
+    await restored.whenLoaded();
+    expect(restored.getAll().map((req) => req.id)).toEqual([
+      c!.id,
+      b!.id,
+      a!.id,
+    ]);
+  });
+
+  it('updates headers of a queued request', async () => {
+    const handler = await createHandler(false);
+    handler
+      .smartFetch('/uploads', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer old' },
+      })
+      .catch(() => undefined);
+    await flush();
+    const [request] = handler.getQueuedRequests();
+
+    await handler.updateRequestHeaders(request!.id, {
+      Authorization: 'Bearer new',
+    });
+    expect(handler.getQueuedRequests()[0]?.headers).toEqual(
+      expect.objectContaining({ Authorization: 'Bearer new' })
+    );
+    expect(
+      JSON.parse(storage.data.get('network-smart-handler-queue')!)[0].headers
+        .Authorization
+    ).toBe('Bearer new');
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: 'request-updated',
+        data: expect.objectContaining({ change: 'headers' }),
+      })
+    );
+    handler.destroy();
+  });
+});
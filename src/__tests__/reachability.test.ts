@@ -0,0 +1,136 @@
+import { ReachabilityChecker, checkReachability } from '../core/reachability';
+import { WebNetworkDetector } from '../core/networkDetector';
+import type { NetworkStatus, ProbeStrategy, Transport } from '../types';
+import { emit, useBrowserStubs } from './helpers';
+
+const flush = async (times = 10) => {
+  for (let i = 0; i < times; i++) {
+    await Promise.resolve();
+  }
+};
+
+/**
+ * Fake transport answering with the given status and body, 0 fails the request
+ */
+const answering = (status: number, body: string | null = null) =>
+  jest.fn<ReturnType<Transport>, Parameters<Transport>>(async () => {
+    if (status === 0) {
+      throw new TypeError('Network request failed');
+    }
+    return new Response(body, { status });
+  });
+
+describe('checkReachability', () => {
+  const config = { url: '/generate_204' };
+
+  it('tells the internet from a captive portal', async () => {
+    expect(await checkReachability(answering(204), config)).toBe('reachable');
+    expect(
+      await checkReachability(answering(200, '<html>Log in</html>'), config)
+    ).toBe('captive-portal');
+    expect(await checkReachability(answering(302), config)).toBe(
+      'captive-portal'
+    );
+    expect(await checkReachability(answering(0), config)).toBe('unreachable');
+    expect(await checkReachability(answering(503), config)).toBe('unreachable');
+  });
+
+  it('compares the body when one is expected', async () => {
+    const withBody = { url: '/ok', expectedStatus: 200, expectedBody: 'ok' };
+
+    expect(await checkReachability(answering(200, 'ok\n'), withBody)).toBe(
+      'reachable'
+    );
+    expect(
+      await checkReachability(answering(200, '<html></html>'), withBody)
+    ).toBe('captive-portal');
+  });
+});
+
+describe('ReachabilityChecker', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('backs off while checks fail', async () => {
+    jest.useFakeTimers();
+    const transport = answering(0);
+    const results: string[] = [];
+    const checker = new ReachabilityChecker(
+      { url: '/generate_204', retryInterval: 1000, maxRetryInterval: 3000 },
+      transport,
+      (result) => results.push(result)
+    );
+
+    checker.start();
+    expect(checker.getNextDelay()).toBe(30000);
+    await checker.check();
+    expect(checker.getNextDelay()).toBe(1000);
+
+    jest.advanceTimersByTime(1000);
+    await flush();
+    expect(checker.getNextDelay()).toBe(2000);
+
+    jest.advanceTimersByTime(2000);
+    await flush();
+    expect(checker.getNextDelay()).toBe(3000);
+    expect(results).toEqual(['unreachable', 'unreachable', 'unreachable']);
+
+    checker.stop();
+    jest.advanceTimersByTime(10000);
+    await flush();
+    expect(transport).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('WebNetworkDetector reachability', () => {
+  useBrowserStubs();
+
+  it('reports a captive portal as offline', async () => {
+    const transport = answering(200, '<html>Log in</html>');
+    const detector = new WebNetworkDetector(
+      { reachability: { url: '/generate_204' }, stability: false },
+      transport
+    );
+
+    const status = await detector.getStatus();
+
+    expect(status).toEqual(
+      expect.objectContaining({ isOnline: false, captivePortal: true })
+    );
+
+    const seen: NetworkStatus[] = [];
+    detector.startMonitoring((next) => seen.push(next));
+    transport.mockImplementation(
+      async () => new Response(null, { status: 204 })
+    );
+    emit('online');
+    await flush();
+    expect(seen[seen.length - 1]).toEqual(
+      expect.objectContaining({ isOnline: true, captivePortal: false })
+    );
+    detector.stopMonitoring();
+  });
+
+  it('goes offline after enough failed probes in a row', async () => {
+    const failing: ProbeStrategy = {
+      name: 'failing',
+      probe: async () => ({ latency: Infinity }),
+    };
+    const detector = new WebNetworkDetector({
+      enableQualityTesting: true,
+      probe: failing,
+      probeFailureThreshold: 2,
+      stability: false,
+    });
+    const seen: NetworkStatus[] = [];
+    detector.startMonitoring((status) => seen.push(status));
+
+    expect((await detector.getStatus()).isOnline).toBe(true);
+    expect((await detector.getStatus()).isOnline).toBe(false);
+    expect(seen[seen.length - 1]).toEqual(
+      expect.objectContaining({ isOnline: false, captivePortal: false })
+    );
+    detector.stopMonitoring();
+  });
+});
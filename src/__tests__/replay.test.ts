@@ -0,0 +1,55 @@
+import { NetworkHandler } from '../core/networkHandler';
+import type { NetworkEvent } from '../types';
+import { flush, MemoryStorage, useBrowserStubs } from './helpers';
+
+describe('replay of restored requests', () => {
+  useBrowserStubs();
+
+  it('replays the persisted backlog and hands responses to named handlers', async () => {
+    const storage = new MemoryStorage();
+    await storage.setItem(
+      'network-smart-handler-queue',
+      JSON.stringify([
+        { id: 'a', url: '/forms/1', method: 'POST', timestamp: 1 },
+        {
+          id: 'b',
+          url: '/forms/2',
+          method: 'POST',
+          timestamp: 2,
+          replayHandler: 'form-submit',
+        },
+      ])
+    );
+
+    const sent: string[] = [];
+    global.fetch = jest.fn(async (url: any) => {
+      sent.push(String(url));
+      return new Response('ok', { status: 201 });
+    }) as any;
+
+    const handler = new NetworkHandler(
+      { queue: { persistToStorage: true } },
+      storage
+    );
+    const replayed: string[] = [];
+    handler.registerReplayHandler('form-submit', (response, request) => {
+      replayed.push(`${request.id}:${response.status}`);
+    });
+    const events: NetworkEvent[] = [];
+    handler.onTelemetry((event) => events.push(event));
+
+    await flush();
+
+    expect(sent).toEqual(['/forms/1', '/forms/2']);
+    expect(replayed).toEqual(['b:201']);
+    expect(events.filter((e) => e.type === 'request-replayed')).toHaveLength(2);
+    expect(events.find((e) => e.type === 'replay-drained')?.data).toEqual({
+      replayed: 2,
+      failed: 0,
+      expired: 0,
+    });
+    expect(handler.getQueuedRequests()).toHaveLength(0);
+
+    handler.destroy();
+  });
+});
@@ -0,0 +1,194 @@
+import { RequestQueue } from '../core/requestQueue';
+import { QueueFullError } from '../core/errors';
+import type { QueueConfig, QueueEvent } from '../types';
+import { MemoryStorage } from './helpers';
+
+const save = (body: string) => ({
+  url: '/notes/1',
+  method: 'PUT',
+  body,
+  dedupeKey: 'save-note-1',
+});
+
+describe('RequestQueue de-duplication', () => {
+  it('keeps the first of concurrent duplicates by default', async () => {
+    const queue = new RequestQueue({ policy: 'persist' });
+    const events: QueueEvent[] = [];
+    queue.subscribe((event) => events.push(event));
+
+    const ids = await Promise.all([
+      queue.enqueue(save('a')),
+      queue.enqueue(save('b')),
+      queue.enqueue(save('c')),
+    ]);
+
+    expect(new Set(ids).size).toBe(1);
+    expect(queue.getAll().map((r) => r.body)).toEqual(['a']);
+    expect(events).toHaveLength(2);
+  });
+
+  it('replaces with the latest request in place', async () => {
+    const queue = new RequestQueue({ policy: 'persist', dedupe: 'replace' });
+    const firstId = await queue.enqueue(save('a'));
+    await queue.enqueue({ url: '/other', method: 'POST' });
+    const secondId = await queue.enqueue(save('b'));
+
+    expect(secondId).toBe(firstId);
+    expect(queue.getAll().map((r) => r.body)).toEqual(['b', undefined]);
+  });
+
+  it('merges duplicates through the callback', async () => {
+    const queue = new RequestQueue({
+      policy: 'persist',
+      dedupe: 'merge',
+      mergeDuplicates: (existing, incoming) => ({
+        body: `${existing.body}+${incoming.body}`,
+      }),
+    });
+    await queue.enqueue(save('a'));
+    await queue.enqueue(save('b'), { dedupeStrategy: 'merge' });
+
+    expect(queue.getAll().map((r) => r.body)).toEqual(['a+b']);
+  });
+
+  it('keeps the idempotency key of the entry a duplicate collapses into', async () => {
+    const queue = new RequestQueue({
+      policy: 'persist',
+      dedupe: 'merge',
+      mergeDuplicates: (_existing, incoming) => ({ headers: incoming.headers }),
+    });
+    const withKey = (body: string, key: string) => ({
+      ...save(body),
+      headers: { 'idempotency-key': key },
+    });
+
+    await queue.enqueue(withKey('a', 'first'));
+    await queue.enqueue(withKey('b', 'second'));
+    await queue.enqueue(withKey('c', 'third'), { dedupeStrategy: 'replace' });
+
+    expect(queue.getAll().map((r) => r.headers)).toEqual([
+      { 'Idempotency-Key': 'first' },
+    ]);
+  });
+
+  it('collapses into duplicates restored from storage', async () => {
+    const storage = new MemoryStorage();
+    const config: QueueConfig = {
+      policy: 'persist',
+      persistToStorage: true,
+      dedupe: 'replace',
+    };
+    await new RequestQueue(config, storage).enqueue(save('before restart'));
+
+    const queue = new RequestQueue(config, storage);
+    await queue.enqueue(save('after restart'));
+
+    expect(queue.getAll()).toHaveLength(1);
+    expect(queue.getAll()[0]?.restored).toBe(true);
+
+    const reloaded = new RequestQueue(config, storage);
+    await reloaded.whenLoaded();
+    expect(reloaded.getAll().map((r) => r.body)).toEqual(['after restart']);
+  });
+});
+
+describe('RequestQueue expiry', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('expires at the queue TTL or the deadline, whichever comes first', async () => {
+    const queue = new RequestQueue({ policy: 'persist', ttl: 1000 });
+    const now = Date.now();
+
+    await queue.enqueue({ url: '/a', method: 'POST', deadlineAt: now + 60000 });
+    await queue.enqueue({ url: '/b', method: 'POST', deadlineAt: now + 500 });
+
+    const [a, b] = queue.getAll();
+    expect(a!.expiresAt).toBeGreaterThanOrEqual(now + 1000);
+    expect(a!.expiresAt).toBeLessThan(now + 60000);
+    expect(b!.expiresAt).toBe(now + 500);
+    queue.destroy();
+  });
+
+  it('prunes expired requests before dequeue', async () => {
+    const queue = new RequestQueue({ policy: 'persist', ttl: 1000 });
+    const events: QueueEvent[] = [];
+    queue.subscribe((event) => events.push(event));
+
+    await queue.enqueue({ url: '/like', method: 'POST' });
+    await queue.enqueue({
+      url: '/comment',
+      method: 'POST',
+      expiresAt: Date.now() + 60000,
+    });
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 5000);
+
+    expect(queue.dequeue()?.url).toBe('/comment');
+    expect(events).toEqual([
+      {
+        type: 'expired',
+        requests: [expect.objectContaining({ url: '/like' })],
+      },
+    ]);
+    queue.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('prunes on a timer and on load', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const storage = new MemoryStorage();
+    const config: QueueConfig = {
+      policy: 'persist',
+      persistToStorage: true,
+      pruneInterval: 100,
+    };
+    const queue = new RequestQueue(config, storage);
+    await queue.enqueue({ url: '/a', method: 'POST', expiresAt: 150 });
+    await queue.enqueue({ url: '/b', method: 'POST', expiresAt: 1000 });
+
+    jest.advanceTimersByTime(200);
+    expect(queue.getAll().map((r) => r.url)).toEqual(['/b']);
+    queue.destroy();
+
+    jest.setSystemTime(2000);
+    const restored = new RequestQueue(config, storage);
+    await restored.whenLoaded();
+    expect(restored.size()).toBe(0);
+    restored.destroy();
+  });
+});
+
+describe('RequestQueue persistence', () => {
+  it('leaves custom retry strategies out of storage', async () => {
+    const storage = new MemoryStorage();
+    const queue = new RequestQueue(
+      { policy: 'persist', persistToStorage: true },
+      storage
+    );
+    await queue.enqueue({
+      url: '/a',
+      method: 'POST',
+      retryConfig: { maxAttempts: 5, strategy: () => 'stop' },
+    });
+
+    const [stored] = JSON.parse(
+      storage.data.get('network-smart-handler-queue')!
+    );
+    expect(stored.retryConfig).toEqual({ maxAttempts: 5 });
+  });
+});
+
+describe('RequestQueue size limit', () => {
+  it('rejects requests beyond maxSize with QueueFullError', async () => {
+    const queue = new RequestQueue({ policy: 'reject', maxSize: 1 });
+    await queue.enqueue({ url: '/notes/1', method: 'PUT' });
+
+    const error = await queue
+      .enqueue({ url: '/notes/2', method: 'PUT' })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(QueueFullError);
+    expect(error.maxSize).toBe(1);
+    expect(queue.size()).toBe(1);
+  });
+});
@@ -0,0 +1,222 @@
+import { NetworkHandler } from '../core/networkHandler';
+import { ResponseCache, getCacheInfo } from '../core/responseCache';
+import type { CacheConfig, StorageAdapter } from '../types';
+import { flush, MemoryStorage, useBrowserStubs } from './helpers';
+
+describe('ResponseCache', () => {
+  it('keeps only cacheable responses, newest up to maxEntries', async () => {
+    const cache = new ResponseCache({ maxEntries: 2 });
+
+    await cache.put('/a', '/a', new Response('a'));
+    await cache.put(
+      '/b',
+      '/b',
+      new Response('b', { headers: { 'Cache-Control': 'no-store' } })
+    );
+    await cache.put('/c', '/c', new Response('', { status: 404 }));
+    await cache.put('/d', '/d', new Response('d'));
+    await cache.put('/e', '/e', new Response('e'));
+
+    expect(cache.size()).toBe(2);
+    expect(cache.get('/a')).toBeUndefined();
+    expect(cache.get('/e')?.body).toBe('e');
+  });
+
+  it('derives freshness from Cache-Control and drops entries past maxAge', async () => {
+    const cache = new ResponseCache({ maxAge: 60000, ttl: 1000 });
+    const now = Date.now();
+
+    const cached = await cache.put(
+      '/a',
+      '/a',
+      new Response('a', { headers: { 'Cache-Control': 'max-age=30' } })
+    );
+    const plain = await cache.put('/b', '/b', new Response('b'));
+
+    expect(cache.isFresh(cached!, now + 20000)).toBe(true);
+    expect(cache.isFresh(cached!, now + 40000)).toBe(false);
+    expect(cache.isFresh(plain!, now + 2000)).toBe(false);
+    expect(cache.get('/a', now + 61000)).toBeUndefined();
+  });
+
+  it('stores binary bodies through the body codecs', async () => {
+    const storage = new MemoryStorage();
+    const cache = new ResponseCache({}, storage);
+    const bytes = new Uint8Array([0, 255, 128, 10]);
+
+    await cache.put(
+      '/logo',
+      '/logo',
+      new Response(bytes, { headers: { 'Content-Type': 'image/png' } })
+    );
+    const restored = new ResponseCache({}, storage);
+    await restored.whenLoaded();
+    const response = restored.toResponse(restored.get('/logo')!, false);
+
+    expect([...new Uint8Array(await response.arrayBuffer())]).toEqual([
+      0, 255, 128, 10,
+    ]);
+  });
+
+  it('only matches requests sending the Vary headers it was stored for', async () => {
+    const cache = new ResponseCache({});
+    const now = Date.now();
+
+    await cache.put(
+      '/a',
+      '/a',
+      new Response('a', { headers: { Vary: 'Accept-Encoding' } }),
+      { 'Accept-Encoding': 'gzip' }
+    );
+    await cache.put('/b', '/b', new Response('b', { headers: { Vary: '*' } }));
+
+    expect(cache.get('/a', now, { 'accept-encoding': 'gzip' })).toBeDefined();
+    expect(cache.get('/a', now, { 'Accept-Encoding': 'br' })).toBeUndefined();
+    expect(cache.get('/b')).toBeUndefined();
+  });
+});
+
+describe('NetworkHandler response cache', () => {
+  useBrowserStubs();
+  let version: number;
+
+  beforeEach(() => {
+    version = 1;
+    global.fetch = jest.fn(async (_url: any, init?: RequestInit) => {
+      const etag = `"v${version}"`;
+      const headers = init?.headers as Record<string, string> | undefined;
+      if (headers?.['If-None-Match'] === etag) {
+        return new Response(null, { status: 304 });
+      }
+      return new Response(`notes v${version}`, { headers: { ETag: etag } });
+    }) as any;
+  });
+
+  const createHandler = async (
+    cache: CacheConfig = {},
+    storage?: StorageAdapter
+  ) => {
+    const handler = new NetworkHandler(
+      { cache, retry: { maxAttempts: 1 } },
+      storage
+    );
+    await flush();
+    return handler;
+  };
+
+  it('serves the last known response while offline instead of queueing', async () => {
+    const storage = new MemoryStorage();
+    const online = await createHandler({}, storage);
+    await online.smartFetch('/notes');
+    online.destroy();
+
+    (global as any).navigator = { onLine: false };
+    const offline = await createHandler({}, storage);
+    const response = await offline.smartFetch('/notes');
+
+    expect(await response.text()).toBe('notes v1');
+    expect(getCacheInfo(response)).toEqual({
+      cached: true,
+      stale: true,
+      storedAt: expect.any(Number),
+    });
+    expect(offline.getQueuedRequests()).toEqual([]);
+    offline.destroy();
+  });
+
+  it('revalidates with the stored ETag and serves the cached body on 304', async () => {
+    const handler = await createHandler();
+    await handler.smartFetch('/notes');
+
+    const response = await handler.smartFetch('/notes');
+
+    expect(await response.text()).toBe('notes v1');
+    expect(getCacheInfo(response)).toMatchObject({
+      cached: true,
+      stale: false,
+    });
+    expect((global.fetch as jest.Mock).mock.calls[1][1].headers).toEqual({
+      'If-None-Match': '"v1"',
+    });
+    handler.destroy();
+  });
+
+  it('answers cache-first requests from fresh entries only', async () => {
+    const handler = await createHandler({ policy: 'cache-first', ttl: 60000 });
+    await handler.smartFetch('/notes');
+    version = 2;
+
+    const cached = await handler.smartFetch('/notes');
+    const fetched = await handler.smartFetch('/notes', {}, undefined, {
+      cache: 'network-first',
+    });
+
+    expect(await cached.text()).toBe('notes v1');
+    expect(await fetched.text()).toBe('notes v2');
+    expect(getCacheInfo(fetched).cached).toBe(false);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    handler.destroy();
+  });
+
+  it('serves stale entries and refreshes them in the background', async () => {
+    const handler = await createHandler({ policy: 'stale-while-revalidate' });
+    await handler.smartFetch('/notes');
+    version = 2;
+
+    const stale = await handler.smartFetch('/notes');
+    expect(await stale.text()).toBe('notes v1');
+    expect(getCacheInfo(stale).stale).toBe(true);
+    await flush();
+
+    expect(await (await handler.smartFetch('/notes')).text()).toBe('notes v2');
+    handler.destroy();
+  });
+
+  it('falls back to the cache when the network fails, except offline-only', async () => {
+    const handler = await createHandler();
+    await handler.smartFetch('/notes');
+    global.fetch = jest.fn(async () => {
+      throw new TypeError('Network request failed');
+    }) as any;
+
+    const fallback = await handler.smartFetch('/notes');
+
+    expect(await fallback.text()).toBe('notes v1');
+    expect(getCacheInfo(fallback).cached).toBe(true);
+    await expect(
+      handler.smartFetch('/notes', {}, undefined, { cache: 'offline-only' })
+    ).rejects.toThrow('Network request failed');
+    handler.destroy();
+  });
+
+  it('keeps responses for other credentials apart', async () => {
+    const handler = await createHandler({ policy: 'stale-while-revalidate' });
+    const as = (user: string) => ({
+      headers: { Authorization: `Bearer ${user}` },
+    });
+    await handler.smartFetch('/notes', as('alice'));
+    version = 2;
+
+    const bob = await handler.smartFetch('/notes', as('bob'));
+
+    expect(await bob.text()).toBe('notes v2');
+    expect(getCacheInfo(bob).cached).toBe(false);
+    expect(await handler.invalidateCache('/notes')).toBe(true);
+    expect(
+      getCacheInfo(await handler.smartFetch('/notes', as('alice'))).cached
+    ).toBe(false);
+    handler.destroy();
+  });
+
+  it('leaves other methods and opted-out requests alone', async () => {
+    const handler = await createHandler({ policy: 'cache-first', ttl: 60000 });
+
+    await handler.smartFetch('/notes', { method: 'POST' });
+    await handler.smartFetch('/notes', {}, undefined, { cache: false });
+    await handler.clearCache();
+    await handler.smartFetch('/notes');
+
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    handler.destroy();
+  });
+});
@@ -0,0 +1,253 @@
+import {
+  calculateRetryDelay,
+  defaultRetryConfig,
+  executeWithRetry,
+  getRetryAfterDelay,
+  isRetryableError,
+} from '../core/retryLogic';
+import {
+  CircuitOpenError,
+  HttpError,
+  NetworkUnavailableError,
+  RequestAbortedError,
+  RetryExhaustedError,
+} from '../core/errors';
+import type { RetryClock, RetryConfig, RetryInfo } from '../types';
+
+const throttled = (headers: Record<string, string>) =>
+  new HttpError(new Response('', { status: 429, headers }));
+
+describe('getRetryAfterDelay', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  it('reads Retry-After in seconds or as an HTTP date', () => {
+    expect(
+      getRetryAfterDelay(
+        new Response('', { headers: { 'Retry-After': '3' } }),
+        now
+      )
+    ).toBe(3000);
+    expect(
+      getRetryAfterDelay(
+        { headers: { 'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT' } },
+        now
+      )
+    ).toBe(5000);
+  });
+
+  it('falls back to RateLimit-Reset as seconds or epoch timestamp', () => {
+    expect(
+      getRetryAfterDelay({ headers: { 'RateLimit-Reset': '7' } }, now)
+    ).toBe(7000);
+    expect(
+      getRetryAfterDelay(
+        { headers: { 'X-RateLimit-Reset': String(now / 1000 + 2) } },
+        now
+      )
+    ).toBe(2000);
+    expect(getRetryAfterDelay({ headers: {} }, now)).toBeUndefined();
+  });
+});
+
+describe('executeWithRetry', () => {
+  const config: RetryConfig = {
+    ...defaultRetryConfig,
+    baseDelay: 10,
+    maxDelay: 5000,
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('waits as long as the server asks, up to maxDelay', async () => {
+    jest.useFakeTimers();
+    const retries: RetryInfo[] = [];
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(throttled({ 'Retry-After': '2' }))
+      .mockRejectedValueOnce(throttled({ 'Retry-After': '60' }))
+      .mockResolvedValue('done');
+
+    const result = executeWithRetry(fn, config, undefined, {
+      onRetry: (info) => retries.push(info),
+    });
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(5000);
+    await expect(result).resolves.toBe('done');
+
+    expect(
+      retries.map(({ attempt, delay, retryAfter }) => ({
+        attempt,
+        delay,
+        retryAfter,
+      }))
+    ).toEqual([
+      { attempt: 2, delay: 2000, retryAfter: true },
+      { attempt: 3, delay: 5000, retryAfter: true },
+    ]);
+  });
+
+  it('uses the strategy when the response has no retry headers', async () => {
+    const retries: RetryInfo[] = [];
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(throttled({}))
+      .mockResolvedValue('done');
+
+    await executeWithRetry(fn, config, undefined, {
+      onRetry: (info) => retries.push(info),
+    });
+    expect(retries[0]).toMatchObject({ delay: 10, retryAfter: false });
+  });
+});
+
+describe('retry strategies', () => {
+  const config = (overrides: Partial<RetryConfig>): RetryConfig => ({
+    ...defaultRetryConfig,
+    baseDelay: 100,
+    maxDelay: 10000,
+    ...overrides,
+  });
+
+  it('grows linearly and along the Fibonacci sequence', () => {
+    const delays = (strategy: RetryConfig['strategy']) =>
+      [1, 2, 3, 4, 5].map((attempt) =>
+        calculateRetryDelay(attempt, config({ strategy }))
+      );
+    expect(delays('linear')).toEqual([100, 200, 300, 400, 500]);
+    expect(delays('fibonacci')).toEqual([100, 100, 200, 300, 500]);
+  });
+
+  it('draws decorrelated jitter from the previous delay', () => {
+    const jitter = (random: number, lastDelay?: number) =>
+      calculateRetryDelay(
+        2,
+        config({ strategy: 'decorrelated-jitter', random: () => random }),
+        { lastDelay }
+      );
+    expect(jitter(0, 400)).toBe(100);
+    expect(jitter(0.5, 400)).toBe(650);
+    expect(jitter(1, 400)).toBe(1200);
+    expect(jitter(1)).toBe(300);
+    expect(jitter(1, 5000)).toBe(10000);
+  });
+
+  it('passes the failure to custom strategies', () => {
+    const strategy = jest.fn(() => 42);
+    const error = new Error('boom');
+    expect(
+      calculateRetryDelay(3, config({ strategy }), { lastDelay: 7, error })
+    ).toBe(42);
+    expect(strategy).toHaveBeenCalledWith(3, 7, error, undefined);
+  });
+});
+
+describe('executeWithRetry with custom strategies', () => {
+  const fakeClock = () => {
+    const sleeps: number[] = [];
+    const clock: RetryClock = {
+      now: () => 0,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+    };
+    return { clock, sleeps };
+  };
+
+  it('feeds the previous delay back into the strategy', async () => {
+    const { clock, sleeps } = fakeClock();
+    const fn = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await expect(
+      executeWithRetry(fn, {
+        ...defaultRetryConfig,
+        maxAttempts: 4,
+        strategy: 'decorrelated-jitter',
+        baseDelay: 100,
+        random: () => 1,
+        clock,
+      })
+    ).rejects.toThrow('Failed to fetch');
+    expect(sleeps).toEqual([300, 900, 2700]);
+  });
+
+  it('stops retrying when a custom strategy says so', async () => {
+    const { clock, sleeps } = fakeClock();
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockRejectedValueOnce(new HttpError(new Response('', { status: 503 })));
+
+    await expect(
+      executeWithRetry(fn, {
+        ...defaultRetryConfig,
+        maxAttempts: 5,
+        strategy: (_attempt, _lastDelay, _error, response) =>
+          response?.status === 503 ? 'stop' : 250,
+        clock,
+      })
+    ).rejects.toBeInstanceOf(HttpError);
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(sleeps).toEqual([250]);
+  });
+});
+
+describe('error classification', () => {
+  it('classifies on the error types', () => {
+    const retryable = (error: unknown) =>
+      isRetryableError(error, defaultRetryConfig);
+
+    expect(retryable(new NetworkUnavailableError())).toBe(true);
+    expect(retryable(throttled({}))).toBe(true);
+    expect(retryable(new HttpError(new Response('', { status: 404 })))).toBe(
+      false
+    );
+    expect(retryable(new RequestAbortedError())).toBe(false);
+    expect(retryable(new CircuitOpenError('https://api.example.com'))).toBe(
+      false
+    );
+    // Platform errors of functions that don't throw the typed errors
+    expect(retryable(new TypeError('Failed to fetch'))).toBe(true);
+  });
+
+  it('keeps the error of every attempt once retries run out', async () => {
+    const first = new NetworkUnavailableError();
+    const second = throttled({});
+    const fn = jest
+      .fn<Promise<never>, [number]>()
+      .mockRejectedValueOnce(first)
+      .mockRejectedValueOnce(second);
+
+    const error = await executeWithRetry(fn, {
+      ...defaultRetryConfig,
+      maxAttempts: 2,
+      baseDelay: 0,
+    }).catch((e: RetryExhaustedError) => e);
+
+    expect(error).toBeInstanceOf(RetryExhaustedError);
+    expect(error.errors).toEqual([first, second]);
+    expect(error.lastError).toBe(second);
+  });
+
+  it('rejects with RequestAbortedError once the signal aborts', async () => {
+    const controller = new AbortController();
+    const fn = jest.fn(async () => {
+      controller.abort();
+      throw new NetworkUnavailableError();
+    });
+
+    await expect(
+      executeWithRetry(
+        fn,
+        { ...defaultRetryConfig, maxAttempts: 3, baseDelay: 0 },
+        controller.signal
+      )
+    ).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
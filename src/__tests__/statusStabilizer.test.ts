@@ -0,0 +1,138 @@
+import { StatusStabilizer, qualityForLatency } from '../core/statusStabilizer';
+import { RNNetworkDetector } from '../core/networkDetector';
+import type { NetworkQuality, NetworkStatus } from '../types';
+
+const status = (quality: NetworkQuality, isOnline = true): NetworkStatus => ({
+  isOnline,
+  quality,
+  type: 'wifi',
+  lastUpdated: 0,
+});
+
+describe('qualityForLatency', () => {
+  const thresholds = { weak: 1000, medium: 300 };
+
+  it('keeps the current quality inside the hysteresis band', () => {
+    expect(qualityForLatency(1050, thresholds, 'medium', 0.1)).toBe('medium');
+    expect(qualityForLatency(1150, thresholds, 'medium', 0.1)).toBe('weak');
+    expect(qualityForLatency(950, thresholds, 'weak', 0.1)).toBe('weak');
+    expect(qualityForLatency(850, thresholds, 'weak', 0.1)).toBe('medium');
+    expect(qualityForLatency(280, thresholds, 'medium', 0.1)).toBe('medium');
+    expect(qualityForLatency(320, thresholds, 'strong', 0.1)).toBe('strong');
+    expect(qualityForLatency(Infinity, thresholds, 'strong', 0.1)).toBe('weak');
+  });
+});
+
+describe('StatusStabilizer', () => {
+  let seen: NetworkStatus[];
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 100000 });
+    seen = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const create = (config = {}) => {
+    const stabilizer = new StatusStabilizer(
+      status('medium'),
+      { minDwell: 0, ...config },
+      (stable) => seen.push(stable)
+    );
+    stabilizer.update(status('medium'));
+    return stabilizer;
+  };
+
+  it('needs N of the latest M samples to change quality', () => {
+    const stabilizer = create({ confirmSamples: 2, sampleWindow: 3 });
+
+    stabilizer.update(status('weak'));
+    stabilizer.update(status('medium'));
+    expect(seen).toEqual([]);
+
+    stabilizer.update(status('weak'));
+    expect(seen.map((stable) => stable.quality)).toEqual(['weak']);
+    expect(stabilizer.getStatus().quality).toBe('weak');
+  });
+
+  it('holds a quality for the minimum dwell time', () => {
+    const stabilizer = create({ confirmSamples: 1, minDwell: 5000 });
+
+    stabilizer.update(status('weak'));
+    stabilizer.update(status('strong'));
+    expect(seen.map((stable) => stable.quality)).toEqual(['weak']);
+
+    jest.advanceTimersByTime(5000);
+    expect(seen.map((stable) => stable.quality)).toEqual(['weak', 'strong']);
+  });
+
+  it('debounces drops shorter than the offline delay', () => {
+    const stabilizer = create({ offlineDelay: 1000 });
+
+    stabilizer.update(status('weak', false));
+    jest.advanceTimersByTime(500);
+    stabilizer.update(status('medium'));
+    jest.advanceTimersByTime(1000);
+    expect(seen).toEqual([]);
+
+    stabilizer.update(status('weak', false));
+    jest.advanceTimersByTime(1000);
+    expect(seen).toEqual([expect.objectContaining({ isOnline: false })]);
+    stabilizer.destroy();
+  });
+
+  it('passes every change through when turned off', () => {
+    const stabilizer = new StatusStabilizer(status('medium'), false, (stable) =>
+      seen.push(stable)
+    );
+
+    stabilizer.update(status('weak'));
+    stabilizer.update(status('strong'));
+    stabilizer.update(status('strong', false));
+
+    expect(seen.map((stable) => [stable.isOnline, stable.quality])).toEqual([
+      [true, 'weak'],
+      [true, 'strong'],
+      [false, 'strong'],
+    ]);
+  });
+});
+
+describe('RNNetworkDetector stability', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('only reports transitions that last', async () => {
+    jest.useFakeTimers({ now: 100000 });
+    let listener: (state: any) => void = () => {};
+    const netInfo = {
+      fetch: jest.fn(async () => ({ isConnected: true, type: 'wifi' })),
+      addEventListener: jest.fn((callback) => {
+        listener = callback;
+        return () => {};
+      }),
+    };
+    const detector = new RNNetworkDetector(netInfo, {
+      stability: { offlineDelay: 2000 },
+    });
+    await detector.getStatus();
+    const seen: NetworkStatus[] = [];
+    detector.startMonitoring((stable) => seen.push(stable));
+    seen.length = 0;
+
+    listener({ isConnected: false, type: 'none' });
+    jest.advanceTimersByTime(500);
+    listener({ isConnected: true, type: 'wifi' });
+    listener({ isConnected: false, type: 'none' });
+    jest.advanceTimersByTime(500);
+    listener({ isConnected: true, type: 'wifi' });
+    jest.advanceTimersByTime(5000);
+
+    expect(seen).toEqual([]);
+    expect((await detector.getStatus()).isOnline).toBe(true);
+    detector.stopMonitoring();
+  });
+});
@@ -0,0 +1,158 @@
+import { NetworkHandler } from '../core/networkHandler';
+import {
+  RequestAbortedError,
+  RetryExhaustedError,
+  TimeoutError,
+} from '../core/errors';
+import { defaultRetryConfig, isRetryableError } from '../core/retryLogic';
+import { abortAfter, combineSignals } from '../utils/abort';
+import { emit, useBrowserStubs } from './helpers';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Fetch that never answers and rejects once its signal aborts
+ */
+const hangingFetch = () =>
+  jest.fn(
+    (_url: string, init: RequestInit = {}) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          const error = new Error('Aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+      })
+  );
+
+describe('timeouts', () => {
+  useBrowserStubs();
+
+  it('times out each attempt and retries it', async () => {
+    global.fetch = hangingFetch() as any;
+    const handler = new NetworkHandler({
+      retry: { maxAttempts: 2, baseDelay: 0 },
+      timeout: { attempt: 20 },
+    });
+    await tick();
+
+    const error = await handler.smartFetch('/notes').catch((e) => e);
+
+    expect(error).toBeInstanceOf(RetryExhaustedError);
+    expect(error.errors).toHaveLength(2);
+    expect(error.lastError).toBeInstanceOf(TimeoutError);
+    expect(error.lastError).toMatchObject({ kind: 'attempt', timeout: 20 });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    handler.destroy();
+  });
+
+  it('gives up once the deadline passes, across retries', async () => {
+    global.fetch = hangingFetch() as any;
+    const handler = new NetworkHandler({
+      retry: { maxAttempts: 5, baseDelay: 0 },
+      timeout: { attempt: 20 },
+    });
+    await tick();
+
+    const error = await handler
+      .smartFetch('/notes', {}, undefined, { deadline: 50 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({ kind: 'deadline', timeout: 50 });
+    expect((global.fetch as jest.Mock).mock.calls.length).toBeLessThan(5);
+    handler.destroy();
+  });
+
+  it('keeps the caller abort distinct from timeouts', async () => {
+    global.fetch = hangingFetch() as any;
+    const handler = new NetworkHandler({
+      retry: { maxAttempts: 3, baseDelay: 0 },
+      timeout: { attempt: 1000 },
+    });
+    await tick();
+    const controller = new AbortController();
+
+    const pending = handler
+      .smartFetch('/notes', { signal: controller.signal })
+      .catch((e) => e);
+    controller.abort();
+    const error = await pending;
+
+    expect(error).toBeInstanceOf(RequestAbortedError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    handler.destroy();
+  });
+
+  it('rejects queued requests whose deadline passes before they are sent', async () => {
+    (global as any).navigator = { onLine: false };
+    global.fetch = jest.fn() as any;
+    const handler = new NetworkHandler({ queue: { pruneInterval: 10 } });
+    await tick();
+
+    const error = await handler
+      .smartFetch('/notes', { method: 'POST' }, undefined, { deadline: 30 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.kind).toBe('deadline');
+    expect(handler.getQueuedRequests()).toHaveLength(0);
+    expect(global.fetch).not.toHaveBeenCalled();
+    handler.destroy();
+  });
+
+  it('reports the configured deadline when a queued request runs out', async () => {
+    (global as any).navigator = { onLine: false };
+    global.fetch = hangingFetch() as any;
+    const handler = new NetworkHandler({ timeout: false });
+    await tick();
+
+    const response = handler
+      .smartFetch('/notes', { method: 'POST' }, undefined, { deadline: 40 })
+      .catch((e) => e);
+    await tick();
+    emit('online');
+
+    const error = await response;
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(error).toMatchObject({ kind: 'deadline', timeout: 40 });
+    handler.destroy();
+  });
+
+  it('retries attempt timeouts but not deadline timeouts', () => {
+    expect(
+      isRetryableError(new TimeoutError(10, 'attempt'), defaultRetryConfig)
+    ).toBe(true);
+    expect(
+      isRetryableError(new TimeoutError(10, 'deadline'), defaultRetryConfig)
+    ).toBe(false);
+  });
+});
+
+describe('abort helpers', () => {
+  it('combines signals', () => {
+    const first = new AbortController();
+    const second = new AbortController();
+    const { signal, dispose } = combineSignals(
+      first.signal,
+      undefined,
+      second.signal
+    );
+
+    expect(signal.aborted).toBe(false);
+    second.abort('stop');
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBe('stop');
+    dispose();
+  });
+
+  it('aborts after a delay unless cleared', async () => {
+    const fired = abortAfter(5);
+    const cleared = abortAfter(5);
+    cleared.clear();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(fired.signal.aborted).toBe(true);
+    expect(cleared.signal.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import { TrafficEstimator } from '../core/trafficEstimator';
+import { NetworkHandler } from '../core/networkHandler';
+import type { NetworkEvent } from '../types';
+import { flush, useBrowserStubs } from './helpers';
+
+describe('TrafficEstimator', () => {
+  it('waits for enough samples in the window', () => {
+    const estimator = new TrafficEstimator({ window: 1000, minSamples: 2 });
+
+    estimator.record({ duration: 100, timestamp: 0 });
+    expect(estimator.estimate(0)).toBeUndefined();
+
+    estimator.record({ duration: 300, timestamp: 500 });
+    expect(estimator.estimate(500)).toEqual({
+      latency: 200,
+      throughput: undefined,
+    });
+    expect(estimator.estimate(1200)).toBeUndefined();
+  });
+
+  it('counts failures as infinitely slow and sums throughput', () => {
+    const estimator = new TrafficEstimator({ percentile: 0.5 });
+    const now = Date.now();
+
+    estimator.record({ duration: 100, bytes: 50000, timestamp: now });
+    estimator.record({ duration: 400, bytes: 200000, timestamp: now });
+    estimator.record({ duration: 5000, failed: true, timestamp: now });
+    expect(estimator.estimate(now)).toEqual({
+      latency: 400,
+      throughput: 500000,
+    });
+
+    estimator.record({ duration: 5000, failed: true, timestamp: now });
+    expect(estimator.estimate(now)?.latency).toBe(Infinity);
+  });
+});
+
+describe('NetworkHandler passive estimation', () => {
+  useBrowserStubs();
+
+  beforeEach(() => {
+    global.fetch = jest.fn(async () => {
+      throw new TypeError('Network request failed');
+    }) as any;
+  });
+
+  it('derives quality from real requests and forgets it when idle', async () => {
+    const handler = new NetworkHandler({
+      retry: { maxAttempts: 1 },
+      passiveEstimation: { window: 50, minSamples: 3 },
+      stability: { minDwell: 0 },
+    });
+    await flush();
+    const events: NetworkEvent[] = [];
+    handler.onTelemetry((event) => events.push(event));
+
+    for (let i = 0; i < 3; i++) {
+      await handler.smartFetch('/feed').catch(() => undefined);
+    }
+
+    expect(handler.getStatus().quality).toBe('weak');
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: 'quality-changed',
+        data: expect.objectContaining({ previousQuality: 'medium' }),
+      })
+    );
+    // No probes, only the three requests
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+
+    // Going back takes two idle windows, like any change needs two samples
+    await new Promise((resolve) => setTimeout(resolve, 75));
+    expect(handler.getStatus().quality).toBe('weak');
+    await new Promise((resolve) => setTimeout(resolve, 90));
+    expect(handler.getStatus().quality).toBe('medium');
+    handler.destroy();
+  });
+
+  it('leaves throughput to probes, the body download is not timed', async () => {
+    // Headers arrive after a few milliseconds, the body would take far longer
+    global.fetch = jest.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return new Response('', { headers: { 'Content-Length': '10000000' } });
+    }) as any;
+    const handler = new NetworkHandler({
+      passiveEstimation: { minSamples: 3 },
+    });
+    await flush();
+
+    for (let i = 0; i < 4; i++) {
+      await handler.smartFetch('/video');
+    }
+
+    expect(handler.getStatus().latency).toBeDefined();
+    expect(handler.getStatus().throughput).toBeUndefined();
+    handler.destroy();
+  });
+
+  it('can be turned off', async () => {
+    const handler = new NetworkHandler({
+      retry: { maxAttempts: 1 },
+      passiveEstimation: false,
+    });
+    await flush();
+
+    for (let i = 0; i < 3; i++) {
+      await handler.smartFetch('/feed').catch(() => undefined);
+    }
+
+    expect(handler.getStatus().quality).toBe('medium');
+    handler.destroy();
+  });
+});
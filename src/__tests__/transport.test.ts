@@ -0,0 +1,74 @@
+import { NetworkHandler } from '../core/networkHandler';
+import { replaceGlobalFetch } from '../adapters/fetchAdapter';
+import type { Transport } from '../types';
+import { flush, useBrowserStubs } from './helpers';
+
+/**
+ * Fake transport answering from a script, one response per call
+ */
+const scripted = (...statuses: number[]) =>
+  jest.fn<ReturnType<Transport>, Parameters<Transport>>(
+    async () => new Response('', { status: statuses.shift() ?? 200 })
+  );
+
+describe('transport', () => {
+  useBrowserStubs();
+
+  beforeEach(() => {
+    global.fetch = jest.fn(async () => {
+      throw new Error('global fetch must not be used');
+    }) as any;
+  });
+
+  it('sends requests through the injected transport', async () => {
+    const transport = scripted(503, 201);
+    const handler = new NetworkHandler({
+      transport,
+      retry: { maxAttempts: 2, baseDelay: 0 },
+    });
+    await flush();
+
+    const response = await handler.smartFetch('/notes', { method: 'POST' });
+
+    expect(response.status).toBe(201);
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(transport.mock.calls[0]![0]).toBe('/notes');
+    expect(global.fetch).not.toHaveBeenCalled();
+    handler.destroy();
+  });
+
+  it('sends quality probes through the transport', async () => {
+    const transport = scripted();
+    const handler = new NetworkHandler({
+      transport,
+      enableQualityTesting: true,
+      testEndpoint: '/ping',
+    });
+    await flush();
+
+    expect(transport).toHaveBeenCalledWith(
+      '/ping',
+      expect.objectContaining({ method: 'HEAD' })
+    );
+    expect(global.fetch).not.toHaveBeenCalled();
+    handler.destroy();
+  });
+
+  it('keeps the original fetch as transport when replacing the global one', async () => {
+    const original = jest.fn(async () => new Response('ok'));
+    global.fetch = original as any;
+    const handler = new NetworkHandler();
+    await flush();
+
+    const restore = replaceGlobalFetch(handler);
+    const response = await fetch('/notes');
+
+    expect(await response.text()).toBe('ok');
+    expect(original).toHaveBeenCalledTimes(1);
+
+    restore();
+    expect(global.fetch).toBe(original);
+    expect(handler.getTransport()).toBeUndefined();
+    handler.destroy();
+  });
+});
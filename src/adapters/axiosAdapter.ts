@@ -5,6 +5,7 @@ type AxiosResponse = any;
 type AxiosError = any;
 import type { NetworkHandler } from '../core/networkHandler';
 import type { RetryConfig } from '../types';
+import { HttpError, NetworkHandlerError } from '../core/errors';
 
 /**
  * Create axios interceptor that uses NetworkHandler
@@ -45,33 +46,44 @@ export function createAxiosInterceptor(handler: NetworkHandler) {
           signal: config.signal,
         };
 
+        let response: Response;
         try {
           // Use smart fetch with retry
-          const response = await handler.smartFetch(
+          response = await handler.smartFetch(
             fullUrl,
             fetchOptions,
             retryConfig
           );
+        } catch (smartError) {
+          // Typed handler errors replace the original axios error, others
+          // re-throw it
+          throw smartError instanceof NetworkHandlerError ? smartError : error;
+        }
 
-          // Convert fetch response to axios response format
-          const data = await response.json().catch(() => response.text());
-          const headers: Record<string, string> = {};
-          response.headers.forEach((value: string, key: string) => {
-            headers[key] = value;
-          });
-          const axiosResponse: AxiosResponse = {
-            data,
-            status: response.status,
-            statusText: response.statusText,
-            headers,
-            config,
-            request: {},
-          };
-
-          return axiosResponse;
-        } catch {
-          throw error; // Re-throw original axios error
+        // Reject failed statuses like axios does
+        const validateStatus =
+          config.validateStatus ??
+          ((status: number) => status >= 200 && status < 300);
+        if (validateStatus && !validateStatus(response.status)) {
+          throw new HttpError(response);
         }
+
+        // Convert fetch response to axios response format
+        const data = await response.json().catch(() => response.text());
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value: string, key: string) => {
+          headers[key] = value;
+        });
+        const axiosResponse: AxiosResponse = {
+          data,
+          status: response.status,
+          statusText: response.statusText,
+          headers,
+          config,
+          request: {},
+        };
+
+        return axiosResponse;
       },
     },
   };
@@ -1,5 +1,5 @@
 import type { NetworkHandler } from '../core/networkHandler';
-import type { RetryConfig } from '../types';
+import type { RetryConfig, SmartFetchOptions } from '../types';
 
 /**
  * Create a fetch wrapper that uses NetworkHandler
@@ -8,23 +8,33 @@ export function createFetchAdapter(handler: NetworkHandler) {
   return async function smartFetch(
     url: string,
     options?: RequestInit,
-    retryConfig?: Partial<RetryConfig>
+    retryConfig?: Partial<RetryConfig>,
+    smartOptions?: SmartFetchOptions
   ): Promise<Response> {
-    return handler.smartFetch(url, options, retryConfig);
+    return handler.smartFetch(url, options, retryConfig, smartOptions);
   };
 }
 
 /**
  * Replace global fetch with smart fetch
+ * The original fetch becomes the handler's transport, unless it has one
+ * already, so smart fetch doesn't call itself
  */
 export function replaceGlobalFetch(handler: NetworkHandler): () => void {
   const originalFetch = global.fetch;
   const smartFetch = createFetchAdapter(handler);
+  const ownsTransport = !handler.getTransport();
 
+  if (ownsTransport) {
+    handler.setTransport((url, init) => originalFetch(url, init));
+  }
   global.fetch = smartFetch as typeof fetch;
 
   // Return restore function
   return () => {
     global.fetch = originalFetch;
+    if (ownsTransport) {
+      handler.setTransport(undefined);
+    }
   };
 }
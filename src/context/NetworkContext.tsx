@@ -15,6 +15,8 @@ import type {
   RetryConfig,
   TelemetryCallback,
   StorageAdapter,
+  ReplayHandler,
+  SmartFetchOptions,
 } from '../types';
 import { NetworkHandler } from '../core/networkHandler';
 import { NetworkNotification } from '../components/NetworkNotification';
@@ -28,10 +30,12 @@ export interface NetworkContextValue {
   smartFetch: (
     url: string,
     options?: RequestInit,
-    retryConfig?: Partial<RetryConfig>
+    retryConfig?: Partial<RetryConfig>,
+    smartOptions?: SmartFetchOptions
   ) => Promise<Response>;
   clearQueue: () => Promise<void>;
   onTelemetry: (callback: TelemetryCallback) => () => void;
+  registerReplayHandler: (name: string, handler: ReplayHandler) => () => void;
 }
 
 const NetworkContext = createContext<NetworkContextValue | null>(null);
@@ -71,6 +75,7 @@ export function NetworkProvider({
   const [queuedRequests, setQueuedRequests] = useState<QueuedRequest[]>([]);
   const configRef = useRef(config);
   const storageRef = useRef(storage);
+  const replayHandlersRef = useRef<Map<string, ReplayHandler>>(new Map());
 
   // Update refs when props change
   useEffect(() => {
@@ -82,6 +87,9 @@ export function NetworkProvider({
     // Initialize handler
     const handler = new NetworkHandler(configRef.current, storageRef.current);
     handlerRef.current = handler;
+    replayHandlersRef.current.forEach((replayHandler, name) => {
+      handler.registerReplayHandler(name, replayHandler);
+    });
 
     // Subscribe to status changes
     const unsubscribe = handler.subscribe((newStatus) => {
@@ -116,7 +124,8 @@ export function NetworkProvider({
     async (
       url: string,
       options?: RequestInit,
-      retryConfig?: Partial<RetryConfig>
+      retryConfig?: Partial<RetryConfig>,
+      smartOptions?: SmartFetchOptions
     ) => {
       if (!handlerRef.current) {
         throw new Error('NetworkHandler not initialized');
@@ -124,7 +133,8 @@ export function NetworkProvider({
       const response = await handlerRef.current.smartFetch(
         url,
         options,
-        retryConfig
+        retryConfig,
+        smartOptions
       );
       // Update state after fetch
       if (handlerRef.current) {
@@ -152,6 +162,24 @@ export function NetworkProvider({
     return handlerRef.current.onTelemetry(callback);
   }, []);
 
+  const registerReplayHandler = useCallback(
+    (name: string, handler: ReplayHandler) => {
+      // Children register before the handler exists, so keep them around
+      replayHandlersRef.current.set(name, handler);
+      const unregister = handlerRef.current?.registerReplayHandler(
+        name,
+        handler
+      );
+      return () => {
+        if (replayHandlersRef.current.get(name) === handler) {
+          replayHandlersRef.current.delete(name);
+        }
+        unregister?.();
+      };
+    },
+    []
+  );
+
   const value: NetworkContextValue = {
     status,
     statistics,
@@ -161,6 +189,7 @@ export function NetworkProvider({
     smartFetch,
     clearQueue,
     onTelemetry,
+    registerReplayHandler,
   };
 
   return (
@@ -0,0 +1,76 @@
+import type { AuthConfig, Middleware } from '../types';
+
+/**
+ * Create the middleware that adds auth headers and refreshes them on 401
+ * Requests rejected while a refresh runs wait for it instead of starting
+ * their own, then replay once with the new headers. A request that was sent
+ * before a refresh finished replays without refreshing again. A failed
+ * refresh is reported once, and requests started before it failed keep
+ * their 401 instead of refreshing again.
+ */
+export function createAuthMiddleware(
+  config: AuthConfig,
+  onRefreshFailed: (error: unknown) => void
+): Middleware {
+  const shouldRefresh =
+    config.shouldRefresh ?? ((response: Response) => response.status === 401);
+  let refreshing: Promise<void> | undefined;
+  let generation = 0;
+  let failures = 0;
+
+  const refresh = (): Promise<void> => {
+    if (!refreshing) {
+      refreshing = config
+        .refresh()
+        .then(
+          () => {
+            generation++;
+          },
+          (error) => {
+            failures++;
+            onRefreshFailed(error);
+            throw error;
+          }
+        )
+        .finally(() => {
+          refreshing = undefined;
+        });
+    }
+    return refreshing;
+  };
+
+  return async (request, next) => {
+    const failedBefore = failures;
+    // Don't send credentials that are being replaced right now
+    if (refreshing) {
+      await refreshing.catch(() => undefined);
+    }
+
+    const send = async () =>
+      next({
+        ...request,
+        options: {
+          ...request.options,
+          headers: {
+            ...request.options.headers,
+            ...(await config.getHeaders()),
+          },
+        },
+      });
+
+    const sentWith = generation;
+    const response = await send();
+    if (!shouldRefresh(response) || failures !== failedBefore) {
+      return response;
+    }
+
+    if (generation === sentWith) {
+      try {
+        await refresh();
+      } catch {
+        return response;
+      }
+    }
+    return send();
+  };
+}
@@ -0,0 +1,194 @@
+import type { CircuitBreakerConfig, CircuitState } from '../types';
+
+/**
+ * Per-origin breaker state
+ */
+interface Circuit {
+  state: CircuitState;
+  outcomes: Array<{ time: number; failed: boolean }>;
+  openedAt: number;
+  probes: number; // Requests in flight while half-open
+}
+
+const defaultCircuitBreakerConfig: Required<CircuitBreakerConfig> = {
+  failureThreshold: 0.5,
+  minimumRequests: 10,
+  window: 60000,
+  cooldown: 30000,
+  halfOpenRequests: 1,
+};
+
+/**
+ * Get the origin a URL belongs to, relative URLs belong to the current page
+ */
+export function getOrigin(url: string): string {
+  const match = /^([a-z][a-z0-9+.-]*:\/\/[^/?#]+)/i.exec(url);
+  if (match) {
+    return match[1]!.toLowerCase();
+  }
+  const location = (globalThis as any).location;
+  return typeof location?.origin === 'string' ? location.origin : '';
+}
+
+/**
+ * Circuit Breaker
+ * Tracks failures per origin. Once the failure rate of the recent window
+ * crosses the threshold the circuit opens and requests fail fast. After the
+ * cool-down a few probe requests are let through (half-open), and the
+ * circuit closes again when they succeed.
+ */
+export class CircuitBreaker {
+  private config: Required<CircuitBreakerConfig>;
+  private circuits: Map<string, Circuit> = new Map();
+  private listeners: Set<
+    (origin: string, state: CircuitState, previous: CircuitState) => void
+  > = new Set();
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.config = { ...defaultCircuitBreakerConfig, ...config };
+  }
+
+  /**
+   * Listen to state changes of any circuit
+   */
+  onStateChange(
+    listener: (
+      origin: string,
+      state: CircuitState,
+      previous: CircuitState
+    ) => void
+  ): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get state of the circuit of an origin
+   */
+  getState(origin: string): CircuitState {
+    return this.circuits.get(origin)?.state ?? 'closed';
+  }
+
+  /**
+   * Check whether a request to the origin would be let through, without
+   * counting it as a probe
+   */
+  allows(origin: string, now: number = Date.now()): boolean {
+    const circuit = this.circuits.get(origin);
+    if (!circuit || circuit.state === 'closed') {
+      return true;
+    }
+    if (circuit.state === 'open') {
+      return now - circuit.openedAt >= this.config.cooldown;
+    }
+    return circuit.probes < this.config.halfOpenRequests;
+  }
+
+  /**
+   * Claim a request to the origin
+   * Returns false when the circuit is open and the request must fail fast
+   */
+  tryAcquire(origin: string, now: number = Date.now()): boolean {
+    if (!this.allows(origin, now)) {
+      return false;
+    }
+    const circuit = this.circuits.get(origin);
+    if (circuit && circuit.state !== 'closed') {
+      if (circuit.state === 'open') {
+        this.transition(origin, circuit, 'half-open');
+      }
+      circuit.probes++;
+    }
+    return true;
+  }
+
+  /**
+   * Time at which an open circuit lets a probe through
+   */
+  retryAt(origin: string): number | undefined {
+    const circuit = this.circuits.get(origin);
+    return circuit?.state === 'open'
+      ? circuit.openedAt + this.config.cooldown
+      : undefined;
+  }
+
+  /**
+   * Record the outcome of a request claimed with tryAcquire
+   */
+  record(origin: string, failed: boolean, now: number = Date.now()): void {
+    let circuit = this.circuits.get(origin);
+    if (!circuit) {
+      circuit = { state: 'closed', outcomes: [], openedAt: 0, probes: 0 };
+      this.circuits.set(origin, circuit);
+    }
+
+    if (circuit.state === 'half-open') {
+      circuit.probes = Math.max(0, circuit.probes - 1);
+      if (failed) {
+        circuit.openedAt = now;
+        this.transition(origin, circuit, 'open');
+      } else if (circuit.probes === 0) {
+        circuit.outcomes = [];
+        this.transition(origin, circuit, 'closed');
+      }
+      return;
+    }
+    if (circuit.state === 'open') {
+      // Outcome of a request that started before the circuit opened
+      return;
+    }
+
+    circuit.outcomes.push({ time: now, failed });
+    circuit.outcomes = circuit.outcomes.filter(
+      (outcome) => now - outcome.time < this.config.window
+    );
+
+    const failures = circuit.outcomes.filter((outcome) => outcome.failed);
+    if (
+      circuit.outcomes.length >= this.config.minimumRequests &&
+      failures.length / circuit.outcomes.length >= this.config.failureThreshold
+    ) {
+      circuit.openedAt = now;
+      this.transition(origin, circuit, 'open');
+    }
+  }
+
+  /**
+   * Give back a request claimed with tryAcquire that ended without an
+   * outcome, e.g. because it was aborted
+   */
+  release(origin: string): void {
+    const circuit = this.circuits.get(origin);
+    if (circuit?.state === 'half-open') {
+      circuit.probes = Math.max(0, circuit.probes - 1);
+    }
+  }
+
+  /**
+   * Forget all circuits
+   */
+  reset(): void {
+    this.circuits.clear();
+  }
+
+  private transition(
+    origin: string,
+    circuit: Circuit,
+    state: CircuitState
+  ): void {
+    const previous = circuit.state;
+    circuit.state = state;
+    if (state !== 'half-open') {
+      circuit.probes = 0;
+    }
+    this.listeners.forEach((listener) => {
+      try {
+        listener(origin, state, previous);
+      } catch (error) {
+        console.error('Error in circuit breaker listener:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Promise of a registered request with its settle functions
+ */
+interface Completion<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Completion Registry
+ * Holds one promise per queued request ID, shared by every caller waiting on
+ * that entry. Whoever sends the request settles it; an entry settles exactly
+ * once and is forgotten afterwards.
+ */
+export class CompletionRegistry<T> {
+  private entries: Map<string, Completion<T>> = new Map();
+
+  /**
+   * Register a request, or get its promise when it is registered already
+   */
+  register(id: string): Promise<T> {
+    const existing = this.entries.get(id);
+    if (existing) {
+      return existing.promise;
+    }
+
+    let resolve: (value: T) => void = () => {};
+    let reject: (error: unknown) => void = () => {};
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Settling before any caller listens must not count as unhandled
+    promise.catch(() => undefined);
+    this.entries.set(id, { promise, resolve, reject });
+    return promise;
+  }
+
+  /**
+   * Get promise of a registered request
+   */
+  get(id: string): Promise<T> | undefined {
+    return this.entries.get(id)?.promise;
+  }
+
+  /**
+   * Check whether a request is registered and unsettled
+   */
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  /**
+   * Fulfil the promise of a request
+   * Returns false when the request is not registered or already settled
+   */
+  resolve(id: string, value: T): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return false;
+    }
+    this.entries.delete(id);
+    entry.resolve(value);
+    return true;
+  }
+
+  /**
+   * Reject the promise of a request
+   * Returns false when the request is not registered or already settled
+   */
+  reject(id: string, error: unknown): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return false;
+    }
+    this.entries.delete(id);
+    entry.reject(error);
+    return true;
+  }
+
+  /**
+   * Forget a request without settling it, e.g. when it never got queued
+   */
+  delete(id: string): void {
+    this.entries.delete(id);
+  }
+
+  /**
+   * Get number of unsettled requests
+   */
+  size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Task waiting for a free slot
+ */
+interface PendingTask {
+  lane?: string;
+  start: () => void;
+}
+
+/**
+ * Concurrency Limiter
+ * Bounded worker pool for requests. The limit is read on every scheduling
+ * decision so it can follow network quality. Tasks sharing a lane run one
+ * at a time, in the order they were scheduled.
+ */
+export class ConcurrencyLimiter {
+  private getLimit: () => number;
+  private active = 0;
+  private busyLanes: Set<string> = new Set();
+  private waiting: PendingTask[] = [];
+  private changeListeners: Array<() => void> = [];
+
+  constructor(getLimit: () => number) {
+    this.getLimit = getLimit;
+  }
+
+  /**
+   * Run task once a slot (and its lane) is free
+   */
+  run<T>(task: () => Promise<T>, lane?: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.waiting.push({
+        lane,
+        start: () => {
+          this.active++;
+          if (lane !== undefined) {
+            this.busyLanes.add(lane);
+          }
+
+          let result: Promise<T>;
+          try {
+            result = task();
+          } catch (error) {
+            result = Promise.reject(error);
+          }
+          result.then(resolve, reject).finally(() => {
+            this.active--;
+            if (lane !== undefined) {
+              this.busyLanes.delete(lane);
+            }
+            this.refresh();
+          });
+        },
+      });
+      this.pump();
+    });
+  }
+
+  /**
+   * Check whether a new task would start right away
+   */
+  hasCapacity(): boolean {
+    return this.active < this.limit();
+  }
+
+  /**
+   * Check whether a task of the lane is running
+   */
+  isLaneBusy(lane?: string): boolean {
+    return lane !== undefined && this.busyLanes.has(lane);
+  }
+
+  /**
+   * Get number of running tasks
+   */
+  activeCount(): number {
+    return this.active;
+  }
+
+  /**
+   * Resolves on the next change of capacity
+   */
+  whenChanged(): Promise<void> {
+    return new Promise((resolve) => {
+      this.changeListeners.push(resolve);
+    });
+  }
+
+  /**
+   * Re-evaluate the limit, e.g. after network quality changed
+   */
+  refresh(): void {
+    this.pump();
+    const listeners = this.changeListeners;
+    this.changeListeners = [];
+    listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Start waiting tasks while slots are free
+   */
+  private pump(): void {
+    while (this.active < this.limit()) {
+      const index = this.waiting.findIndex(
+        (task) => !this.isLaneBusy(task.lane)
+      );
+      if (index === -1) {
+        return;
+      }
+      const [task] = this.waiting.splice(index, 1);
+      task!.start();
+    }
+  }
+
+  private limit(): number {
+    return Math.max(1, Math.floor(this.getLimit()));
+  }
+}
@@ -0,0 +1,257 @@
+import type {
+  BodyCodec,
+  DeadLetter,
+  DeadLetterConfig,
+  EncodedBody,
+  QueuedRequest,
+  RequestAttempt,
+  StorageAdapter,
+  StoredDeadLetter,
+} from '../types';
+import { BodyCodecRegistry } from '../utils/bodyCodec';
+import { RetryExhaustedError } from './errors';
+
+/**
+ * Dead letter with the stored form of its body
+ */
+interface DeadLetterEntry {
+  letter: DeadLetter;
+  encodedBody?: EncodedBody;
+}
+
+/**
+ * Summarize an error so it survives JSON serialization
+ * Exhausted retries are described by the error of the final attempt, the
+ * others are kept in the attempt history.
+ */
+function describeError(error: unknown): DeadLetter['error'] {
+  const err = (
+    error instanceof RetryExhaustedError ? error.lastError : error
+  ) as any;
+  return {
+    name: err?.name || 'Error',
+    message: err?.message || String(error),
+    status: err?.response?.status ?? err?.status,
+  };
+}
+
+/**
+ * Dead Letter Queue
+ * Keeps queued requests that failed permanently, so offline user data is
+ * never dropped silently
+ */
+export class DeadLetterQueue {
+  private entries: DeadLetterEntry[] = [];
+  private config: DeadLetterConfig;
+  private storage?: StorageAdapter;
+  private storageKey: string;
+  private codecs: BodyCodecRegistry;
+  private loaded: Promise<void>;
+  private evictListeners: Set<(letters: DeadLetter[]) => void> = new Set();
+
+  constructor(
+    config: DeadLetterConfig,
+    storage?: StorageAdapter,
+    bodyCodecs?: BodyCodec[]
+  ) {
+    this.config = config;
+    this.storage = config.persist ? storage : undefined;
+    this.storageKey = config.storageKey || 'network-smart-handler-dead-letters';
+    this.codecs = new BodyCodecRegistry(bodyCodecs);
+    this.loaded = this.storage ? this.loadFromStorage() : Promise.resolve();
+  }
+
+  /**
+   * Resolves once dead letters of a previous session are restored
+   */
+  whenLoaded(): Promise<void> {
+    return this.loaded;
+  }
+
+  /**
+   * Add a permanently failed request
+   */
+  async add(
+    request: QueuedRequest,
+    error: unknown,
+    attempts: RequestAttempt[]
+  ): Promise<DeadLetter> {
+    await this.loaded;
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { abortController, restored, ...rest } = request;
+    const letter: DeadLetter = {
+      id: request.id,
+      request: rest,
+      error: describeError(error),
+      attempts: [...attempts],
+      queuedAt: request.timestamp,
+      failedAt: Date.now(),
+    };
+
+    let encodedBody: EncodedBody | undefined;
+    if (this.storage) {
+      try {
+        encodedBody = await this.codecs.encode(request.body);
+      } catch (encodeError) {
+        console.warn(
+          `Body of dead letter ${letter.id} cannot be persisted:`,
+          encodeError
+        );
+      }
+    }
+
+    this.entries = this.entries.filter(
+      (entry) => entry.letter.id !== letter.id
+    );
+    this.entries.push({ letter, encodedBody });
+
+    const maxSize = this.config.maxSize ?? 100;
+    const evicted =
+      this.entries.length > maxSize
+        ? this.entries.splice(0, this.entries.length - maxSize)
+        : [];
+
+    await this.saveToStorage();
+    if (evicted.length > 0) {
+      const letters = evicted.map((entry) => entry.letter);
+      this.evictListeners.forEach((listener) => listener(letters));
+    }
+    return letter;
+  }
+
+  /**
+   * Listen to letters dropped to stay within maxSize
+   */
+  onEvict(listener: (letters: DeadLetter[]) => void): () => void {
+    this.evictListeners.add(listener);
+    return () => {
+      this.evictListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get all dead letters, oldest first
+   */
+  getAll(): DeadLetter[] {
+    return this.entries.map((entry) => entry.letter);
+  }
+
+  /**
+   * Get dead letter by ID
+   */
+  get(id: string): DeadLetter | undefined {
+    return this.entries.find((entry) => entry.letter.id === id)?.letter;
+  }
+
+  /**
+   * Get number of dead letters
+   */
+  size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Remove a dead letter, e.g. after it was retried or discarded
+   */
+  async remove(id: string): Promise<boolean> {
+    const index = this.entries.findIndex((entry) => entry.letter.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.entries.splice(index, 1);
+    await this.saveToStorage();
+    return true;
+  }
+
+  /**
+   * Remove all dead letters
+   */
+  async clear(): Promise<void> {
+    this.entries = [];
+    if (this.storage) {
+      await this.storage.removeItem(this.storageKey);
+    }
+  }
+
+  /**
+   * Export dead letters in their JSON-safe form, bodies encoded
+   */
+  async export(): Promise<StoredDeadLetter[]> {
+    await this.loaded;
+    return Promise.all(
+      this.entries.map(async (entry) => {
+        let encodedBody = entry.encodedBody;
+        if (!encodedBody && entry.letter.request.body !== undefined) {
+          try {
+            encodedBody = await this.codecs.encode(entry.letter.request.body);
+          } catch {
+            encodedBody = undefined;
+          }
+        }
+        return this.toStoredDeadLetter(entry.letter, encodedBody);
+      })
+    );
+  }
+
+  /**
+   * Load dead letters from storage
+   */
+  private async loadFromStorage(): Promise<void> {
+    if (!this.storage) return;
+
+    try {
+      const data = await this.storage.getItem(this.storageKey);
+      const stored: StoredDeadLetter[] = data ? JSON.parse(data) : [];
+
+      const restored = stored.map((item) => {
+        const { encodedBody, ...request } = item.request;
+        const letter: DeadLetter = { ...item, request };
+        if (encodedBody) {
+          try {
+            letter.request.body = this.codecs.decode(encodedBody);
+          } catch (error) {
+            // Keep the encoded body so the entry can still be exported
+            console.warn(
+              `Body of dead letter ${letter.id} could not be restored:`,
+              error
+            );
+          }
+        }
+        return { letter, encodedBody };
+      });
+
+      this.entries = [...restored, ...this.entries];
+    } catch (error) {
+      console.warn('Failed to load dead letters from storage:', error);
+    }
+  }
+
+  /**
+   * Save dead letters to storage
+   */
+  private async saveToStorage(): Promise<void> {
+    if (!this.storage) return;
+
+    try {
+      const serializable = this.entries.map((entry) =>
+        this.toStoredDeadLetter(entry.letter, entry.encodedBody)
+      );
+      await this.storage.setItem(this.storageKey, JSON.stringify(serializable));
+    } catch (error) {
+      console.warn('Failed to save dead letters to storage:', error);
+    }
+  }
+
+  /**
+   * Convert dead letter to its persisted form
+   */
+  private toStoredDeadLetter(
+    letter: DeadLetter,
+    encodedBody?: EncodedBody
+  ): StoredDeadLetter {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { body, ...request } = letter.request;
+    return { ...letter, request: { ...request, encodedBody } };
+  }
+}
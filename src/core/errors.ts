@@ -0,0 +1,194 @@
+import type { QueuedRequest } from '../types';
+
+/**
+ * Base class of every error thrown by the handler, so callers can tell them
+ * apart from their own errors with a single instanceof check
+ */
+export class NetworkHandlerError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'NetworkHandlerError';
+  }
+}
+
+/**
+ * Thrown when a request body cannot be written to the persisted queue
+ */
+export class BodySerializationError extends NetworkHandlerError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BodySerializationError';
+  }
+}
+
+/**
+ * Rejects the smartFetch promise of a queued request that expired before it
+ * could be sent
+ */
+export class RequestExpiredError extends NetworkHandlerError {
+  requestId: string;
+  expiresAt: number;
+
+  constructor(request: QueuedRequest) {
+    super(`Request ${request.id} to ${request.url} expired in the queue`);
+    this.name = 'RequestExpiredError';
+    this.requestId = request.id;
+    this.expiresAt = request.expiresAt ?? request.timestamp;
+  }
+}
+
+/**
+ * Rejects the smartFetch promise of a queued request whose dependency failed
+ */
+export class DependencyFailedError extends NetworkHandlerError {
+  requestId: string;
+  dependencyId: string;
+
+  constructor(request: QueuedRequest, dependencyId: string) {
+    super(
+      `Request ${request.id} to ${request.url} was cancelled because request ${dependencyId} failed`
+    );
+    this.name = 'DependencyFailedError';
+    this.requestId = request.id;
+    this.dependencyId = dependencyId;
+  }
+}
+
+/**
+ * Rejects the smartFetch promise of a queued request cancelled on purpose
+ */
+export class RequestCancelledError extends NetworkHandlerError {
+  requestId: string;
+
+  constructor(request: QueuedRequest) {
+    super(`Request ${request.id} to ${request.url} was cancelled`);
+    this.name = 'RequestCancelledError';
+    this.requestId = request.id;
+  }
+}
+
+/**
+ * Thrown for a response with a failed status, keeps the response so retry
+ * logic can read its headers
+ */
+export class HttpError extends NetworkHandlerError {
+  status: number;
+  response: Response;
+
+  constructor(response: Response) {
+    super(`HTTP ${response.status}: ${response.statusText}`);
+    this.name = 'HttpError';
+    this.status = response.status;
+    this.response = response;
+  }
+}
+
+/**
+ * Thrown without sending the request while the circuit of its origin is open
+ */
+export class CircuitOpenError extends NetworkHandlerError {
+  origin: string;
+  retryAt?: number;
+
+  constructor(origin: string, retryAt?: number) {
+    super(`Circuit for ${origin || 'this origin'} is open`);
+    this.name = 'CircuitOpenError';
+    this.origin = origin;
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Thrown when an attempt or the overall deadline of a request runs out
+ * Attempt timeouts are retried, a passed deadline is final
+ */
+export class TimeoutError extends NetworkHandlerError {
+  timeout: number;
+  kind: 'attempt' | 'deadline';
+
+  constructor(timeout: number, kind: 'attempt' | 'deadline') {
+    super(
+      kind === 'attempt'
+        ? `Attempt timed out after ${timeout}ms`
+        : `Request deadline of ${timeout}ms passed`
+    );
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+    this.kind = kind;
+  }
+}
+
+/**
+ * Thrown when a request cannot reach the network, wraps the platform error
+ * (e.g. `TypeError: Failed to fetch`) as its cause
+ */
+export class NetworkUnavailableError extends NetworkHandlerError {
+  constructor(cause?: unknown) {
+    super((cause as Error)?.message || 'Network is unavailable', { cause });
+    this.name = 'NetworkUnavailableError';
+  }
+}
+
+/**
+ * Thrown when a request is rejected because the queue reached its maxSize
+ */
+export class QueueFullError extends NetworkHandlerError {
+  maxSize: number;
+
+  constructor(maxSize: number) {
+    super(`Queue is full (${maxSize} requests)`);
+    this.name = 'QueueFullError';
+    this.maxSize = maxSize;
+  }
+}
+
+/**
+ * Thrown when the caller aborted the request through its signal
+ */
+export class RequestAbortedError extends NetworkHandlerError {
+  reason: unknown;
+
+  constructor(reason?: unknown) {
+    super('Request aborted');
+    this.name = 'RequestAbortedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Thrown when every attempt failed with a retryable error, keeps the error of
+ * each attempt in order
+ */
+export class RetryExhaustedError extends NetworkHandlerError {
+  errors: unknown[];
+
+  constructor(errors: unknown[]) {
+    const last = errors[errors.length - 1] as Error | undefined;
+    super(
+      `Request failed after ${errors.length} attempts: ${
+        last?.message ?? String(last)
+      }`,
+      { cause: last }
+    );
+    this.name = 'RetryExhaustedError';
+    this.errors = errors;
+  }
+
+  /**
+   * Error of the final attempt
+   */
+  get lastError(): unknown {
+    return this.errors[this.errors.length - 1];
+  }
+}
+
+/**
+ * Thrown by middleware to send the attempt again, after the usual backoff and
+ * within maxAttempts
+ */
+export class RetryRequestError extends NetworkHandlerError {
+  constructor(message: string = 'Retry requested by middleware') {
+    super(message);
+    this.name = 'RetryRequestError';
+  }
+}
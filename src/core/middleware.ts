@@ -0,0 +1,24 @@
+import type { Middleware, MiddlewareRequest } from '../types';
+
+/**
+ * Run a request through the middleware chain
+ * Each middleware gets the request as left by the previous one, send is
+ * called once the chain reaches its end.
+ */
+export function runMiddleware(
+  middleware: Middleware[],
+  request: MiddlewareRequest,
+  send: (request: MiddlewareRequest) => Promise<Response>
+): Promise<Response> {
+  const dispatch = (
+    index: number,
+    current: MiddlewareRequest
+  ): Promise<Response> => {
+    const step = middleware[index];
+    if (!step) {
+      return send(current);
+    }
+    return step(current, (next = current) => dispatch(index + 1, next));
+  };
+  return dispatch(0, request);
+}
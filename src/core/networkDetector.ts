@@ -3,7 +3,21 @@ import type {
   NetworkQuality,
   NetworkType,
   NetworkHandlerConfig,
+  ProbeResult,
+  ProbeStrategy,
+  ReachabilityResult,
+  TrafficSample,
+  Transport,
 } from '../types';
+import { combineProbes, defaultProbe } from './probeStrategies';
+import { TrafficEstimator } from './trafficEstimator';
+import { StatusStabilizer, qualityForLatency } from './statusStabilizer';
+import { ReachabilityChecker } from './reachability';
+
+/**
+ * Send through the global fetch as it is at call time
+ */
+const globalTransport: Transport = (url, init) => fetch(url, init);
 
 /**
  * Network Detector Interface
@@ -12,6 +26,7 @@ export interface NetworkDetector {
   getStatus(): Promise<NetworkStatus>;
   startMonitoring(callback: (status: NetworkStatus) => void): () => void; // Returns unsubscribe function
   stopMonitoring(): void;
+  recordSample?(sample: TrafficSample): void; // Timing of a real request, for passive estimation
 }
 
 /**
@@ -22,10 +37,45 @@ export class WebNetworkDetector implements NetworkDetector {
   private listeners: Set<(status: NetworkStatus) => void> = new Set();
   private qualityTestInterval?: NodeJS.Timeout;
   private currentStatus: NetworkStatus;
-
-  constructor(config: NetworkHandlerConfig = {}) {
+  private transport: Transport;
+  private probe: ProbeStrategy;
+  private estimator?: TrafficEstimator;
+  private idleTimer?: ReturnType<typeof setTimeout>;
+  private baselineQuality: NetworkQuality; // Last quality not estimated from traffic
+  private stabilizer: StatusStabilizer;
+  private reachability?: ReachabilityChecker;
+  private navigatorOnline: boolean; // What the browser claims
+  private failedProbes = 0; // In a row
+  private captivePortal = false;
+
+  constructor(
+    config: NetworkHandlerConfig = {},
+    transport: Transport = config.transport || globalTransport
+  ) {
     this.config = config;
+    // Never call it as a method, window.fetch rejects a foreign `this`
+    this.transport = (url, init) => transport(url, init);
+    this.probe = Array.isArray(config.probe)
+      ? combineProbes(config.probe)
+      : config.probe || defaultProbe(config.testEndpoint);
+    if (config.passiveEstimation !== false) {
+      this.estimator = new TrafficEstimator(config.passiveEstimation || {});
+    }
+    if (config.reachability) {
+      this.reachability = new ReachabilityChecker(
+        config.reachability,
+        this.transport,
+        this.handleReachability
+      );
+    }
     this.currentStatus = this.getInitialStatus();
+    this.navigatorOnline = this.currentStatus.isOnline;
+    this.baselineQuality = this.currentStatus.quality;
+    this.stabilizer = new StatusStabilizer(
+      this.currentStatus,
+      config.stability,
+      (status) => this.emitStatus(status)
+    );
 
     if (typeof window !== 'undefined') {
       window.addEventListener('online', this.handleOnline);
@@ -45,13 +95,54 @@ export class WebNetworkDetector implements NetworkDetector {
   }
 
   private handleOnline = () => {
-    this.updateStatus({ isOnline: true });
+    this.navigatorOnline = true;
+    this.failedProbes = 0;
+    this.captivePortal = false;
+    this.updateStatus({});
+    if (this.reachability) {
+      // Being on a network says nothing about the internet behind it
+      if (this.listeners.size > 0) {
+        this.reachability.start();
+      }
+      this.reachability.check();
+    }
   };
 
   private handleOffline = () => {
-    this.updateStatus({ isOnline: false, quality: 'weak' });
+    this.navigatorOnline = false;
+    this.reachability?.stop();
+    // Timings from before the drop say nothing about the next connection
+    this.estimator?.clear();
+    this.updateStatus({ quality: 'weak' });
   };
 
+  private handleReachability = (result: ReachabilityResult) => {
+    if (!this.navigatorOnline) return;
+    this.captivePortal = result === 'captive-portal';
+    this.countProbe(result === 'reachable');
+    this.updateStatus({}, { measure: false });
+  };
+
+  /**
+   * Count failed probes in a row, enough of them demote to offline
+   */
+  private countProbe(succeeded: boolean) {
+    this.failedProbes = succeeded ? 0 : this.failedProbes + 1;
+  }
+
+  /**
+   * Online as far as the browser, the captive portal check and failed
+   * probes tell
+   */
+  private isReachable(): boolean {
+    const threshold = this.config.probeFailureThreshold ?? 3;
+    return (
+      this.navigatorOnline &&
+      !this.captivePortal &&
+      (threshold <= 0 || this.failedProbes < threshold)
+    );
+  }
+
   private detectNetworkType(): NetworkType {
     if (typeof navigator === 'undefined' || !('connection' in navigator)) {
       return 'unknown';
@@ -81,104 +172,76 @@ export class WebNetworkDetector implements NetworkDetector {
     return 'unknown';
   }
 
-  private async measureLatency(testUrl?: string): Promise<number> {
-    const url =
-      testUrl ||
-      this.config.testEndpoint ||
-      'https://www.google.com/favicon.ico';
-    const startTime = performance.now();
-
+  /**
+   * Run the probe strategy, undefined when it has nothing to report
+   */
+  private async measure(): Promise<ProbeResult | undefined> {
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-      await fetch(url, {
-        method: 'HEAD',
-        mode: 'no-cors',
-        signal: controller.signal,
-        cache: 'no-cache',
+      return await this.probe.probe({
+        transport: this.transport,
+        respectDataSaver: !!this.config.respectDataSaver,
       });
-
-      clearTimeout(timeoutId);
-      return performance.now() - startTime;
-    } catch {
-      return Infinity;
-    }
-  }
-
-  private async measureThroughput(testUrl?: string): Promise<number> {
-    if (this.config.respectDataSaver) {
-      return 0;
-    }
-
-    const url =
-      testUrl ||
-      this.config.testEndpoint ||
-      'https://www.google.com/favicon.ico';
-    const startTime = performance.now();
-    let bytesReceived = 0;
-
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 3000);
-
-      const response = await fetch(url, {
-        method: 'GET',
-        mode: 'no-cors',
-        signal: controller.signal,
-        cache: 'no-cache',
-      });
-
-      clearTimeout(timeoutId);
-      const endTime = performance.now();
-      const duration = (endTime - startTime) / 1000; // in seconds
-
-      // Estimate bytes (approximate)
-      if (response.headers) {
-        const contentLength = response.headers.get('content-length');
-        if (contentLength) {
-          bytesReceived = parseInt(contentLength, 10);
-        }
-      }
-
-      return duration > 0 ? bytesReceived / duration : 0;
-    } catch {
-      return 0;
+    } catch (error) {
+      console.warn(`Quality probe ${this.probe.name} failed:`, error);
+      return undefined;
     }
   }
 
+  /**
+   * Map latency to quality, keeping the stable quality within the hysteresis
+   * band around the thresholds
+   */
   private determineQuality(latency: number): NetworkQuality {
-    const weakThreshold = this.config.qualityThresholds?.weak ?? 1000;
-    const mediumThreshold = this.config.qualityThresholds?.medium ?? 300;
-
-    if (latency >= weakThreshold || !isFinite(latency)) {
-      return 'weak';
-    }
-    if (latency >= mediumThreshold) {
-      return 'medium';
-    }
-    return 'strong';
+    return qualityForLatency(
+      latency,
+      {
+        weak: this.config.qualityThresholds?.weak ?? 1000,
+        medium: this.config.qualityThresholds?.medium ?? 300,
+      },
+      this.stabilizer.getStatus().quality,
+      this.stabilizer.getConfig().hysteresis
+    );
   }
 
-  private async updateStatus(updates: Partial<NetworkStatus>) {
-    let latency: number | undefined;
-    let throughput: number | undefined;
-
-    if (this.config.enableQualityTesting && updates.isOnline !== false) {
-      latency = await this.measureLatency();
-      if (!this.config.respectDataSaver) {
-        throughput = await this.measureThroughput();
+  private async updateStatus(
+    updates: Partial<NetworkStatus>,
+    options: { measure?: boolean } = {}
+  ) {
+    let result: ProbeResult | undefined;
+    let passive = false;
+    if (this.navigatorOnline) {
+      // Real traffic decides, probes only run while it is idle
+      result = this.estimator?.estimate();
+      passive = result !== undefined;
+      if (
+        !result &&
+        options.measure !== false &&
+        this.config.enableQualityTesting
+      ) {
+        result = await this.measure();
+        if (result?.latency !== undefined) {
+          this.countProbe(isFinite(result.latency));
+        }
       }
     }
-
-    const quality =
-      latency !== undefined
-        ? this.determineQuality(latency)
-        : updates.quality || this.currentStatus.quality;
+    const isOnline = this.isReachable();
+    const latency = isOnline ? result?.latency : undefined;
+    const throughput = isOnline ? result?.throughput : undefined;
+
+    const quality = !isOnline
+      ? 'weak'
+      : latency !== undefined
+      ? this.determineQuality(latency)
+      : updates.quality || this.baselineQuality;
+    if (!passive) {
+      this.baselineQuality = quality;
+    }
 
     this.currentStatus = {
       ...this.currentStatus,
       ...updates,
+      isOnline,
+      captivePortal: this.captivePortal,
       quality,
       latency,
       throughput,
@@ -188,26 +251,83 @@ export class WebNetworkDetector implements NetworkDetector {
     this.notifyListeners();
   }
 
+  /**
+   * Pass the raw status to the stabilizer, which notifies listeners of
+   * stable changes
+   */
   private notifyListeners() {
+    this.stabilizer.update(this.currentStatus);
+  }
+
+  private emitStatus(status: NetworkStatus) {
     this.listeners.forEach((listener) => {
       try {
-        listener(this.currentStatus);
+        listener(status);
       } catch (error) {
         console.error('Error in network status listener:', error);
       }
     });
   }
 
+  /**
+   * Feed the timing of a real request to the passive estimator
+   * Every estimate is a sample for the stabilizer.
+   */
+  recordSample(sample: TrafficSample): void {
+    if (!this.estimator) return;
+
+    this.estimator.record(sample);
+    const estimate = this.estimator.estimate();
+    if (!estimate || !this.currentStatus.isOnline) return;
+
+    this.currentStatus = {
+      ...this.currentStatus,
+      quality: this.determineQuality(estimate.latency),
+      latency: estimate.latency,
+      throughput: estimate.throughput ?? this.currentStatus.throughput,
+      lastUpdated: Date.now(),
+    };
+    this.notifyListeners();
+    this.scheduleIdleRevert();
+  }
+
+  /**
+   * Once traffic stops, the estimate expires with the window and the status
+   * goes back to probed values. Those are samples like any other: until the
+   * stabilizer takes them, one more is offered every window.
+   */
+  private scheduleIdleRevert() {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+    }
+    // A sample exactly one window old still counts, wait a millisecond longer
+    this.idleTimer = setTimeout(async () => {
+      this.idleTimer = undefined;
+      await this.updateStatus({});
+      if (
+        !this.idleTimer &&
+        this.estimator?.estimate() === undefined &&
+        this.currentStatus.isOnline &&
+        this.stabilizer.getStatus().quality !== this.currentStatus.quality
+      ) {
+        this.scheduleIdleRevert();
+      }
+    }, ((this.config.passiveEstimation || {}).window ?? 60000) + 1);
+  }
+
   async getStatus(): Promise<NetworkStatus> {
+    if (this.reachability && this.navigatorOnline) {
+      await this.reachability.check();
+    }
     if (this.config.enableQualityTesting) {
       await this.updateStatus({});
     }
-    return { ...this.currentStatus };
+    return this.stabilizer.getStatus();
   }
 
   startMonitoring(callback: (status: NetworkStatus) => void): () => void {
     this.listeners.add(callback);
-    callback(this.currentStatus);
+    callback(this.stabilizer.getStatus());
 
     if (this.config.enableQualityTesting && !this.qualityTestInterval) {
       const interval = this.config.qualityTestInterval || 30000; // Default 30 seconds
@@ -215,13 +335,18 @@ export class WebNetworkDetector implements NetworkDetector {
         this.updateStatus({});
       }, interval);
     }
+    if (this.navigatorOnline) {
+      this.reachability?.start();
+    }
 
     return () => {
       this.listeners.delete(callback);
-      if (this.listeners.size === 0 && this.qualityTestInterval) {
+      if (this.listeners.size > 0) return;
+      if (this.qualityTestInterval) {
         clearInterval(this.qualityTestInterval);
         this.qualityTestInterval = undefined;
       }
+      this.reachability?.stop();
     };
   }
 
@@ -231,6 +356,12 @@ export class WebNetworkDetector implements NetworkDetector {
       clearInterval(this.qualityTestInterval);
       this.qualityTestInterval = undefined;
     }
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = undefined;
+    }
+    this.reachability?.stop();
+    this.stabilizer.destroy();
     if (typeof window !== 'undefined') {
       window.removeEventListener('online', this.handleOnline);
       window.removeEventListener('offline', this.handleOffline);
@@ -246,8 +377,9 @@ export class RNNetworkDetector implements NetworkDetector {
   private unsubscribe?: () => void;
   private NetInfo: any;
   private currentStatus: NetworkStatus;
+  private stabilizer: StatusStabilizer;
 
-  constructor(NetInfo: any, _config: NetworkHandlerConfig = {}) {
+  constructor(NetInfo: any, config: NetworkHandlerConfig = {}) {
     this.NetInfo = NetInfo;
     this.currentStatus = {
       isOnline: false,
@@ -255,6 +387,11 @@ export class RNNetworkDetector implements NetworkDetector {
       type: 'unknown',
       lastUpdated: Date.now(),
     };
+    this.stabilizer = new StatusStabilizer(
+      this.currentStatus,
+      config.stability,
+      (status) => this.emitStatus(status)
+    );
 
     this.initialize();
   }
@@ -351,12 +488,12 @@ export class RNNetworkDetector implements NetworkDetector {
   async getStatus(): Promise<NetworkStatus> {
     const state = await this.NetInfo.fetch();
     this.updateFromNetInfoState(state);
-    return { ...this.currentStatus };
+    return this.stabilizer.getStatus();
   }
 
   startMonitoring(callback: (status: NetworkStatus) => void): () => void {
     this.listeners.add(callback);
-    callback(this.currentStatus);
+    callback(this.stabilizer.getStatus());
 
     if (!this.unsubscribe) {
       this.unsubscribe = this.NetInfo.addEventListener((state: any) => {
@@ -373,10 +510,18 @@ export class RNNetworkDetector implements NetworkDetector {
     };
   }
 
+  /**
+   * Pass the raw status to the stabilizer, which notifies listeners of
+   * stable changes
+   */
   private notifyListeners() {
+    this.stabilizer.update(this.currentStatus);
+  }
+
+  private emitStatus(status: NetworkStatus) {
     this.listeners.forEach((listener) => {
       try {
-        listener(this.currentStatus);
+        listener(status);
       } catch (error) {
         console.error('Error in network status listener:', error);
       }
@@ -389,6 +534,7 @@ export class RNNetworkDetector implements NetworkDetector {
       this.unsubscribe();
       this.unsubscribe = undefined;
     }
+    this.stabilizer.destroy();
   }
 }
 
@@ -396,7 +542,8 @@ export class RNNetworkDetector implements NetworkDetector {
  * Create appropriate network detector based on platform
  */
 export function createNetworkDetector(
-  config: NetworkHandlerConfig = {}
+  config: NetworkHandlerConfig = {},
+  transport?: Transport
 ): NetworkDetector {
   // Check if we're in React Native
   // React Native has navigator.product === 'ReactNative'
@@ -423,5 +570,5 @@ export function createNetworkDetector(
     }
   }
 
-  return new WebNetworkDetector(config);
+  return new WebNetworkDetector(config, transport);
 }
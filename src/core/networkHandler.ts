@@ -1,5 +1,6 @@
 import type {
   NetworkStatus,
+  NetworkQuality,
   NetworkHandlerConfig,
   QueuedRequest,
   RetryConfig,
@@ -8,6 +9,17 @@ import type {
   NetworkStatistics,
   TelemetryCallback,
   StorageAdapter,
+  ReplayHandler,
+  SmartFetchOptions,
+  RequestAttempt,
+  DeadLetter,
+  StoredDeadLetter,
+  TimeoutConfig,
+  Middleware,
+  MiddlewareRequest,
+  Transport,
+  CachePolicy,
+  CachedResponse,
 } from '../types';
 import { createNetworkDetector, type NetworkDetector } from './networkDetector';
 import { RequestQueue } from './requestQueue';
@@ -15,8 +27,70 @@ import {
   executeWithRetry,
   defaultRetryConfig,
   isRetryableError,
+  isNetworkFailure,
 } from './retryLogic';
 import { WebStorageAdapter } from '../utils/storage';
+import { getHeader, toHeaderRecord } from '../utils/headers';
+import {
+  DependencyFailedError,
+  HttpError,
+  CircuitOpenError,
+  QueueFullError,
+  RequestCancelledError,
+  RequestExpiredError,
+  TimeoutError,
+  RequestAbortedError,
+  NetworkUnavailableError,
+} from './errors';
+import { ConcurrencyLimiter } from './concurrencyLimiter';
+import { DeadLetterQueue } from './deadLetterQueue';
+import { CircuitBreaker, getOrigin } from './circuitBreaker';
+import { RetryBudget } from './retryBudget';
+import { CompletionRegistry } from './completionRegistry';
+import { runMiddleware } from './middleware';
+import { createAuthMiddleware } from './authMiddleware';
+import { ResponseCache } from './responseCache';
+import { abortAfter, combineSignals } from '../utils/abort';
+import { generateId } from '../utils/id';
+
+/**
+ * Default number of parallel requests per network quality
+ */
+const defaultConcurrency: Record<NetworkQuality, number> = {
+  weak: 1,
+  medium: 3,
+  strong: 6,
+};
+
+/**
+ * Default per-attempt timeout per network quality
+ */
+const defaultAttemptTimeout: Record<NetworkQuality, number> = {
+  weak: 30000,
+  medium: 20000,
+  strong: 15000,
+};
+
+/**
+ * Lane of requests sent with the serial option
+ */
+const SERIAL_LANE = 'serial';
+
+/**
+ * Headers that select another response for the same URL, by default
+ * they tell coalesced requests and cache entries apart
+ */
+const VARIANT_HEADERS = ['Accept', 'Accept-Language', 'Authorization'];
+
+/**
+ * Fetch shared by identical GET/HEAD requests, cancelled once every caller
+ * has aborted
+ */
+interface CoalescedRequest {
+  response: Promise<Response>;
+  controller: AbortController;
+  callers: number;
+}
 
 /**
  * Main Network Handler Class
@@ -31,10 +105,33 @@ export class NetworkHandler {
   private statistics: NetworkStatistics;
   private unsubscribe?: () => void;
   private processingQueue = false;
+  private paused = false;
+  private replayHandlers: Map<string, ReplayHandler> = new Map();
+  private replayState?: {
+    replayed: number;
+    failed: number;
+    expired: number;
+    inFlight: number;
+    drained: boolean;
+  };
+  private completions: CompletionRegistry<Response> = new CompletionRegistry();
+  private limiter: ConcurrencyLimiter;
+  private inFlightIds: Set<string> = new Set();
+  private deadLetters: DeadLetterQueue;
+  private breaker?: CircuitBreaker;
+  private retryBudget?: RetryBudget;
+  private breakerTimers: Set<ReturnType<typeof setTimeout>> = new Set();
+  private middleware: Middleware[] = [];
+  private authMiddleware?: Middleware;
+  private transport?: Transport;
+  private cache?: ResponseCache;
+  private revalidating: Set<string> = new Set();
+  private coalesced: Map<string, CoalescedRequest> = new Map();
 
   constructor(config: NetworkHandlerConfig = {}, storage?: StorageAdapter) {
     this.config = config;
-    this.detector = createNetworkDetector(config);
+    this.transport = config.transport;
+    this.detector = createNetworkDetector(config, this.transportFetch);
 
     const queueConfig: QueueConfig = {
       policy: config.queue?.policy || 'drop-oldest',
@@ -42,12 +139,83 @@ export class NetworkHandler {
       persistToStorage: config.queue?.persistToStorage || false,
       storageKey: config.queue?.storageKey,
       priority: config.queue?.priority || false,
+      bodyCodecs: config.queue?.bodyCodecs,
+      dedupe: config.queue?.dedupe,
+      mergeDuplicates: config.queue?.mergeDuplicates,
+      idempotencyHeader: config.queue?.idempotencyHeader,
+      ttl: config.queue?.ttl,
+      pruneInterval: config.queue?.pruneInterval,
+      onDependencyFailure: config.queue?.onDependencyFailure,
     };
 
     const storageAdapter =
       storage ||
       (typeof window !== 'undefined' ? new WebStorageAdapter() : undefined);
     this.queue = new RequestQueue(queueConfig, storageAdapter);
+    this.deadLetters = new DeadLetterQueue(
+      {
+        ...config.deadLetter,
+        persist: config.deadLetter?.persist ?? queueConfig.persistToStorage,
+      },
+      storageAdapter,
+      config.queue?.bodyCodecs
+    );
+    this.deadLetters.onEvict((letters) => {
+      letters.forEach((letter) => {
+        this.emitEvent('dead-letter-evicted', {
+          requestId: letter.id,
+          url: letter.request.url,
+        });
+      });
+    });
+    this.limiter = new ConcurrencyLimiter(() => this.getConcurrencyLimit());
+    if (config.circuitBreaker) {
+      this.breaker = new CircuitBreaker(config.circuitBreaker);
+      this.breaker.onStateChange((origin, state, previousState) => {
+        this.emitEvent('circuit-state-changed', {
+          origin,
+          state,
+          previousState,
+        });
+        if (state === 'open') {
+          this.resumeAfterCooldown(origin);
+        }
+      });
+    }
+    if (config.retryBudget) {
+      this.retryBudget = new RetryBudget(config.retryBudget);
+    }
+    if (config.cache) {
+      this.cache = new ResponseCache(
+        config.cache,
+        storageAdapter,
+        config.queue?.bodyCodecs
+      );
+    }
+    if (config.auth) {
+      this.authMiddleware = createAuthMiddleware(config.auth, (error) => {
+        this.emitEvent('auth-refresh-failed', { error });
+      });
+    }
+    this.queue.subscribe((event) => {
+      if (event.type === 'deduplicated') {
+        this.emitEvent('request-deduplicated', {
+          requestId: event.request.id,
+          dedupeKey: event.request.dedupeKey,
+          strategy: event.strategy,
+        });
+      } else if (event.type === 'expired') {
+        this.handleExpiredRequests(event.requests);
+      } else if (event.type === 'dropped') {
+        this.handleDroppedRequests(event.requests, event.reason);
+      } else if (event.type === 'dependency-failed') {
+        this.handleFailedDependency(
+          event.parentId,
+          event.requests,
+          event.action
+        );
+      }
+    });
 
     this.currentStatus = {
       isOnline: false,
@@ -78,34 +246,53 @@ export class NetworkHandler {
 
     // Start monitoring
     this.unsubscribe = this.detector.startMonitoring((status) => {
-      const wasOffline = !this.currentStatus.isOnline;
+      const previous = this.currentStatus;
+      const wasOffline = !previous.isOnline;
+      const couldDrain = this.canDrain();
       this.currentStatus = status;
 
       if (wasOffline && status.isOnline) {
         this.statistics.lastNetworkReturn = Date.now();
         this.emitEvent('online', { status });
-        this.processQueue();
       } else if (!wasOffline && !status.isOnline) {
         this.emitEvent('offline', { status });
       }
 
-      if (this.currentStatus.quality !== status.quality) {
+      if (previous.quality !== status.quality) {
         this.emitEvent('quality-changed', {
           status,
-          previousQuality: this.currentStatus.quality,
+          previousQuality: previous.quality,
         });
       }
 
-      if (this.currentStatus.type !== status.type) {
+      if (previous.type !== status.type) {
         this.emitEvent('type-changed', {
           status,
-          previousType: this.currentStatus.type,
+          previousType: previous.type,
         });
       }
 
+      // Concurrency follows network quality
+      this.limiter.refresh();
       this.notifyStatusListeners();
+
+      // Drain once back online or off a weak connection
+      if (!couldDrain && this.canDrain()) {
+        this.processQueue();
+      }
     });
 
+    // Requests restored from a previous session are replayed by processQueue
+    await this.queue.whenLoaded();
+    this.replayState = {
+      replayed: 0,
+      failed: 0,
+      expired: 0,
+      inFlight: 0,
+      drained: false,
+    };
+    this.checkReplayDrained();
+
     // Process queue if online
     if (this.currentStatus.isOnline) {
       this.processQueue();
@@ -131,6 +318,40 @@ export class NetworkHandler {
     };
   }
 
+  /**
+   * Get the transport requests are sent with, undefined for global fetch
+   */
+  getTransport(): Transport | undefined {
+    return this.transport;
+  }
+
+  /**
+   * Replace the transport requests and quality probes are sent with
+   * Pass undefined to go back to the global fetch
+   */
+  setTransport(transport?: Transport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send through the transport, or the global fetch as it is at call time
+   */
+  private transportFetch: Transport = (url, init) => {
+    const transport = this.transport || fetch;
+    return transport(url, init);
+  };
+
+  /**
+   * Add middleware around every attempt, after the middleware added before
+   * Returns a function that removes it again
+   */
+  use(middleware: Middleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter((step) => step !== middleware);
+    };
+  }
+
   /**
    * Add telemetry callback
    */
@@ -141,6 +362,18 @@ export class NetworkHandler {
     };
   }
 
+  /**
+   * Register a named handler for responses of requests replayed after a restart
+   */
+  registerReplayHandler(name: string, handler: ReplayHandler): () => void {
+    this.replayHandlers.set(name, handler);
+    return () => {
+      if (this.replayHandlers.get(name) === handler) {
+        this.replayHandlers.delete(name);
+      }
+    };
+  }
+
   /**
    * Get statistics
    */
@@ -158,8 +391,39 @@ export class NetworkHandler {
   async smartFetch(
     url: string,
     options: RequestInit = {},
-    retryConfig?: Partial<RetryConfig>
+    retryConfig?: Partial<RetryConfig>,
+    smartOptions: SmartFetchOptions = {}
   ): Promise<Response> {
+    const cachePolicy = this.cachePolicyFor(options, smartOptions);
+    if (cachePolicy) {
+      return this.fetchWithCache(
+        url,
+        options,
+        retryConfig,
+        smartOptions,
+        cachePolicy
+      );
+    }
+
+    const coalesceKey = this.coalesceKeyFor(
+      url,
+      options,
+      retryConfig,
+      smartOptions
+    );
+    if (coalesceKey) {
+      return this.coalesce(
+        coalesceKey,
+        url,
+        options.signal || undefined,
+        (signal) =>
+          this.smartFetch(url, { ...options, signal }, retryConfig, {
+            ...smartOptions,
+            coalesce: false,
+          })
+      );
+    }
+
     this.statistics.totalRequests++;
 
     const mergedRetryConfig: RetryConfig = {
@@ -168,36 +432,640 @@ export class NetworkHandler {
       ...retryConfig,
     };
 
+    const lane = this.laneFor(smartOptions);
+    const deadline = smartOptions.deadline ?? this.timeoutConfig()?.deadline;
+    const deadlineAt =
+      deadline !== undefined ? Date.now() + deadline : undefined;
+    // Ordered requests wait behind their group and their dependencies
+    const mustWait =
+      (lane !== undefined &&
+        this.queue.getAll().some((req) => req.lane === lane)) ||
+      (smartOptions.dependsOn || []).some(
+        (id) => this.queue.has(id) || this.inFlightIds.has(id)
+      );
+
     const shouldQueue =
+      mustWait ||
       !this.currentStatus.isOnline ||
       (this.config.queue && this.currentStatus.quality === 'weak');
 
     if (shouldQueue) {
-      const requestId = await this.queue.enqueue({
-        url,
-        method: options.method || 'GET',
-        headers: options.headers as Record<string, string>,
-        body: options.body,
-        retryConfig: mergedRetryConfig,
-        abortController: options.signal ? undefined : new AbortController(),
-      });
+      const signal = options.signal || undefined;
+      if (signal?.aborted) {
+        throw new RequestAbortedError(signal.reason);
+      }
+
+      const method = options.method || 'GET';
 
-      this.emitEvent('request-queued', { requestId, url });
+      // Register the response up front, the queue may settle the request
+      // (e.g. cancel it after a failed dependency) before enqueue returns
+      const ownId = smartOptions.id ?? generateId();
+      const ownResponse = this.completions.register(ownId);
+      let requestId: string;
+      try {
+        requestId = await this.queue.enqueue(
+          {
+            url,
+            method,
+            headers: this.withIdempotencyKey(
+              method,
+              toHeaderRecord(options.headers)
+            ),
+            body: options.body,
+            retryConfig: mergedRetryConfig,
+            abortController: new AbortController(),
+            replayHandler: smartOptions.replayHandler,
+            dedupeKey: smartOptions.dedupeKey,
+            expiresAt:
+              smartOptions.expiresAt ??
+              (smartOptions.ttl !== undefined
+                ? Date.now() + smartOptions.ttl
+                : undefined),
+            timeout: smartOptions.timeout,
+            deadlineAt,
+            deadline,
+            lane,
+            dependsOn: smartOptions.dependsOn?.length
+              ? [...smartOptions.dependsOn]
+              : undefined,
+          },
+          {
+            dedupeStrategy: smartOptions.dedupeStrategy,
+            id: ownId,
+          }
+        );
+      } catch (error) {
+        this.completions.delete(ownId);
+        throw error;
+      }
+
+      // Duplicates collapsed into one entry share its response. Entries
+      // restored from storage have nobody waiting on them yet.
+      const fresh = requestId === ownId || !this.completions.has(requestId);
+      if (requestId !== ownId) {
+        this.completions.delete(ownId);
+      }
+      const shared =
+        requestId === ownId
+          ? ownResponse
+          : this.completions.register(requestId);
+      if (fresh) {
+        this.emitEvent('request-queued', { requestId, url });
+      }
       this.statistics.queuedRequests = this.queue.size();
 
-      // Wait for network to come back
-      return new Promise((resolve, reject) => {
-        const unsubscribe = this.subscribe((status) => {
-          if (status.isOnline && status.quality !== 'weak') {
-            unsubscribe();
-            this.processQueuedRequest(requestId).then(resolve).catch(reject);
+      // The drain loop sends it, wake it up
+      if (this.canDrain()) {
+        this.limiter.refresh();
+        this.processQueue();
+      }
+
+      // Every caller gets its own copy of the body
+      const response = shared.then((result) => result.clone());
+      return signal
+        ? this.bindCallerSignal(
+            requestId,
+            signal,
+            response,
+            requestId === ownId
+          )
+        : response;
+    }
+
+    // Execute with retry
+    return this.limiter.run(
+      () =>
+        this.trackDependency(smartOptions.id, () =>
+          this.executeFetch(url, options, mergedRetryConfig, {
+            requestId: smartOptions.id,
+            timeout: smartOptions.timeout,
+            deadlineAt,
+            deadline,
+          })
+        ),
+      lane
+    );
+  }
+
+  /**
+   * Get cache policy of a request, none unless it is a cacheable GET
+   */
+  private cachePolicyFor(
+    options: RequestInit,
+    smartOptions: SmartFetchOptions
+  ): CachePolicy | undefined {
+    const method = (options.method || 'GET').toUpperCase();
+    if (!this.cache || method !== 'GET' || smartOptions.cache === false) {
+      return undefined;
+    }
+    return smartOptions.cache || this.config.cache?.policy || 'network-first';
+  }
+
+  /**
+   * Serve a GET through the response cache
+   * Cached entries answer right away while offline instead of waiting in the
+   * queue, otherwise the policy decides whether the network goes first.
+   */
+  private async fetchWithCache(
+    url: string,
+    options: RequestInit,
+    retryConfig: Partial<RetryConfig> | undefined,
+    smartOptions: SmartFetchOptions,
+    policy: CachePolicy
+  ): Promise<Response> {
+    const cache = this.cache!;
+    const key = smartOptions.cacheKey ?? this.cacheKeyFor(url, options);
+    const network = (init: RequestInit) =>
+      this.smartFetch(url, init, retryConfig, {
+        ...smartOptions,
+        cache: false,
+      });
+
+    await cache.whenLoaded();
+    const entry = cache.get(key, Date.now(), toHeaderRecord(options.headers));
+
+    if (entry) {
+      const fresh = cache.isFresh(entry);
+      const online = this.currentStatus.isOnline;
+      if (
+        !online ||
+        policy === 'stale-while-revalidate' ||
+        (policy === 'cache-first' && fresh)
+      ) {
+        if (online && !fresh && !this.revalidating.has(key)) {
+          // Failures are reported by smartFetch, the entry stays as it is
+          this.revalidating.add(key);
+          this.revalidate(key, url, options, entry, network)
+            .catch(() => undefined)
+            .finally(() => this.revalidating.delete(key));
+        }
+        return this.serveCached(entry, !fresh);
+      }
+    }
+
+    try {
+      return await this.revalidate(key, url, options, entry, network);
+    } catch (error) {
+      if (
+        entry &&
+        policy !== 'offline-only' &&
+        !(error instanceof RequestAbortedError)
+      ) {
+        return this.serveCached(entry, !cache.isFresh(entry));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch a GET from the network and update its cache entry
+   * Stored validators make the request conditional, a 304 is answered with
+   * the cached body.
+   */
+  private async revalidate(
+    key: string,
+    url: string,
+    options: RequestInit,
+    entry: CachedResponse | undefined,
+    network: (init: RequestInit) => Promise<Response>
+  ): Promise<Response> {
+    const cache = this.cache!;
+    const headers = toHeaderRecord(options.headers) || {};
+    if (entry?.etag && !getHeader(headers, 'If-None-Match')) {
+      headers['If-None-Match'] = entry.etag;
+    }
+    if (entry?.lastModified && !getHeader(headers, 'If-Modified-Since')) {
+      headers['If-Modified-Since'] = entry.lastModified;
+    }
+
+    const response = await network({ ...options, headers });
+    if (response.status === 304 && entry) {
+      const renewed = await cache.revalidate(key, response);
+      return renewed ? this.serveCached(renewed, false) : response;
+    }
+    await cache.put(
+      key,
+      url,
+      response.clone(),
+      toHeaderRecord(options.headers)
+    );
+    return response;
+  }
+
+  /**
+   * Get the cache key of a GET: its URL and the headers that select another
+   * response, so one user's or one variant's body never answers another
+   */
+  private cacheKeyFor(url: string, options: RequestInit): string {
+    const headers = toHeaderRecord(options.headers);
+    return JSON.stringify([
+      url,
+      ...this.variantHeaders().map((name) => getHeader(headers, name) ?? null),
+    ]);
+  }
+
+  /**
+   * Get the request headers that select another response for a URL
+   */
+  private variantHeaders(): string[] {
+    return (this.config.coalesce || {}).headers || VARIANT_HEADERS;
+  }
+
+  /**
+   * Answer a request with a cached entry
+   */
+  private serveCached(entry: CachedResponse, stale: boolean): Response {
+    this.emitEvent('cache-hit', { url: entry.url, key: entry.key, stale });
+    return this.cache!.toResponse(entry, stale);
+  }
+
+  /**
+   * Get the key identical GET/HEAD requests share, none when the request
+   * must be sent on its own
+   */
+  private coalesceKeyFor(
+    url: string,
+    options: RequestInit,
+    retryConfig: Partial<RetryConfig> | undefined,
+    smartOptions: SmartFetchOptions
+  ): string | undefined {
+    const method = (options.method || 'GET').toUpperCase();
+    // The shared fetch runs with its first caller's options, so callers with
+    // their own retry, timeout, queue or dependency options send on their own
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { coalesce, cache, cacheKey, ...ownOptions } = smartOptions;
+    if (
+      this.config.coalesce === false ||
+      coalesce === false ||
+      (method !== 'GET' && method !== 'HEAD') ||
+      Object.values({ ...retryConfig, ...ownOptions }).some(
+        (value) => value !== undefined
+      )
+    ) {
+      return undefined;
+    }
+
+    const headers = toHeaderRecord(options.headers);
+    return JSON.stringify([
+      method,
+      url,
+      ...this.variantHeaders().map((name) => getHeader(headers, name) ?? null),
+    ]);
+  }
+
+  /**
+   * Join the in-flight fetch of a key, or start it
+   * Every caller gets its own copy of the response. An aborting caller only
+   * stops waiting; the fetch is cancelled when the last caller aborts.
+   */
+  private coalesce(
+    key: string,
+    url: string,
+    signal: AbortSignal | undefined,
+    send: (signal: AbortSignal) => Promise<Response>
+  ): Promise<Response> {
+    if (signal?.aborted) {
+      return Promise.reject(new RequestAbortedError(signal.reason));
+    }
+
+    let shared = this.coalesced.get(key);
+    if (shared) {
+      this.emitEvent('request-coalesced', { url, callers: shared.callers + 1 });
+    } else {
+      const controller = new AbortController();
+      const request: CoalescedRequest = {
+        response: send(controller.signal),
+        controller,
+        callers: 0,
+      };
+      request.response
+        .catch(() => undefined)
+        .finally(() => {
+          if (this.coalesced.get(key) === request) {
+            this.coalesced.delete(key);
           }
         });
+      this.coalesced.set(key, request);
+      shared = request;
+    }
+
+    const request = shared;
+    request.callers++;
+    return new Promise<Response>((resolve, reject) => {
+      const onAbort = () => {
+        request.callers--;
+        reject(new RequestAbortedError(signal!.reason));
+        if (request.callers === 0) {
+          if (this.coalesced.get(key) === request) {
+            this.coalesced.delete(key);
+          }
+          request.controller.abort(signal!.reason);
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      request.response
+        .then((response) => resolve(response.clone()), reject)
+        .finally(() => signal?.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Settle a queued caller when its signal aborts
+   * The caller that queued the entry cancels it, wherever it is: waiting in
+   * the queue or being sent. Callers collapsed into another's entry only stop
+   * waiting for it.
+   */
+  private bindCallerSignal(
+    requestId: string,
+    signal: AbortSignal,
+    response: Promise<Response>,
+    owner: boolean
+  ): Promise<Response> {
+    const controller = this.queue.get(requestId)?.abortController;
+
+    return new Promise<Response>((resolve, reject) => {
+      const onAbort = () => {
+        if (owner) {
+          this.abortRequest(requestId, controller, signal.reason);
+        } else {
+          reject(new RequestAbortedError(signal.reason));
+        }
+      };
+      signal.addEventListener('abort', onAbort);
+      response.then(resolve, reject).finally(() => {
+        signal.removeEventListener('abort', onAbort);
       });
+    });
+  }
+
+  /**
+   * Cancel a queued request after its caller aborted
+   * Requests already taken off the queue are aborted mid-attempt or during
+   * the backoff, executeFetch reports those.
+   */
+  private async abortRequest(
+    requestId: string,
+    controller: AbortController | undefined,
+    reason: unknown
+  ): Promise<void> {
+    const request = this.queue.get(requestId);
+    if (!request || !(await this.queue.remove(requestId))) {
+      controller?.abort(reason);
+      return;
     }
 
-    // Execute with retry
-    return this.executeFetch(url, options, mergedRetryConfig);
+    this.completions.reject(requestId, new RequestAbortedError(reason));
+    this.emitEvent('request-cancelled', {
+      requestId,
+      url: request.url,
+      reason: 'aborted',
+    });
+    this.queue.failDependency(requestId);
+
+    this.statistics.queuedRequests = this.queue.size();
+    this.checkReplayDrained();
+  }
+
+  /**
+   * Get timeout config, undefined when timeouts are disabled
+   */
+  private timeoutConfig(): TimeoutConfig | undefined {
+    return this.config.timeout === false
+      ? undefined
+      : this.config.timeout || {};
+  }
+
+  /**
+   * Get the per-attempt timeout for current network quality and latency
+   */
+  private getAttemptTimeout(override?: number | false): number | undefined {
+    if (override !== undefined) {
+      return override === false ? undefined : override;
+    }
+    const config = this.timeoutConfig();
+    if (!config) {
+      return undefined;
+    }
+
+    const { quality, latency } = this.currentStatus;
+    const base =
+      typeof config.attempt === 'number'
+        ? config.attempt
+        : config.attempt?.[quality] ?? defaultAttemptTimeout[quality];
+    // Slow links get more time than the quality default allows
+    const adaptive =
+      latency !== undefined ? latency * (config.latencyMultiplier ?? 10) : 0;
+    return Math.min(Math.max(base, adaptive), config.maxAttempt ?? 120000);
+  }
+
+  /**
+   * Release a request parked after its dependency failed
+   */
+  async resumeParkedRequest(requestId: string): Promise<boolean> {
+    const resumed = await this.queue.unpark(requestId);
+    if (resumed) {
+      this.limiter.refresh();
+      this.processQueue();
+    }
+    return resumed;
+  }
+
+  /**
+   * Get lane of a request from its group or serial option
+   */
+  private laneFor(smartOptions: SmartFetchOptions): string | undefined {
+    if (smartOptions.group !== undefined) {
+      return smartOptions.group;
+    }
+    return smartOptions.serial ? SERIAL_LANE : undefined;
+  }
+
+  /**
+   * Check whether every request the given one depends on has completed
+   */
+  private dependenciesMet(request: QueuedRequest): boolean {
+    return (request.dependsOn || []).every(
+      (id) => !this.queue.has(id) && !this.inFlightIds.has(id)
+    );
+  }
+
+  /**
+   * Send a request others may depend on, then release or fail its dependents
+   */
+  private async trackDependency(
+    requestId: string | undefined,
+    send: () => Promise<Response>
+  ): Promise<Response> {
+    if (requestId === undefined) {
+      return send();
+    }
+
+    this.inFlightIds.add(requestId);
+    try {
+      const response = await send();
+      if (response.ok) {
+        const result = await response
+          .clone()
+          .json()
+          .catch(() => undefined);
+        await this.queue.resolveDependency(requestId, result);
+      } else {
+        this.queue.failDependency(requestId);
+      }
+      return response;
+    } catch (error) {
+      this.queue.failDependency(requestId);
+      throw error;
+    } finally {
+      this.inFlightIds.delete(requestId);
+    }
+  }
+
+  /**
+   * Get number of requests allowed in parallel for current network quality
+   */
+  private getConcurrencyLimit(): number {
+    const { concurrency } = this.config;
+    if (typeof concurrency === 'number') {
+      return concurrency;
+    }
+    return (
+      concurrency?.[this.currentStatus.quality] ??
+      defaultConcurrency[this.currentStatus.quality]
+    );
+  }
+
+  /**
+   * Check whether the drain loop may send queued requests
+   * Mirrors smartFetch: the queue drains whenever a new request would be sent
+   * right away
+   */
+  private canDrain(): boolean {
+    return (
+      this.currentStatus.isOnline &&
+      !this.paused &&
+      !(this.config.queue && this.currentStatus.quality === 'weak')
+    );
+  }
+
+  /**
+   * Reject callers of expired requests and report them
+   */
+  private handleExpiredRequests(requests: QueuedRequest[]): void {
+    requests.forEach((request) => {
+      // Entries whose deadline ran out before the expiry time time out instead
+      const error =
+        request.deadlineAt !== undefined &&
+        request.expiresAt === request.deadlineAt
+          ? new TimeoutError(
+              request.deadline ?? request.deadlineAt - request.timestamp,
+              'deadline'
+            )
+          : new RequestExpiredError(request);
+      this.completions.reject(request.id, error);
+      if (request.restored && this.replayState) {
+        this.replayState.expired++;
+      }
+      this.emitEvent('request-expired', {
+        requestId: request.id,
+        url: request.url,
+        expiresAt: request.expiresAt,
+      });
+    });
+
+    this.statistics.queuedRequests = this.queue.size();
+    this.checkReplayDrained();
+  }
+
+  /**
+   * Reject callers of requests the queue dropped when full or cleared
+   */
+  private handleDroppedRequests(
+    requests: QueuedRequest[],
+    reason: 'queue-full' | 'cleared'
+  ): void {
+    requests.forEach((request) => {
+      this.completions.reject(
+        request.id,
+        reason === 'queue-full'
+          ? new QueueFullError(this.config.queue?.maxSize ?? 0)
+          : new RequestCancelledError(request)
+      );
+      if (request.restored && this.replayState) {
+        this.replayState.failed++;
+      }
+      this.emitEvent('request-dropped', {
+        requestId: request.id,
+        url: request.url,
+        reason,
+      });
+    });
+
+    this.statistics.queuedRequests = this.queue.size();
+    this.checkReplayDrained();
+  }
+
+  /**
+   * Reject callers of requests cancelled by a failed dependency and report
+   * cancelled or parked requests
+   */
+  private handleFailedDependency(
+    parentId: string,
+    requests: QueuedRequest[],
+    action: 'cancel' | 'park'
+  ): void {
+    requests.forEach((request) => {
+      if (action === 'park') {
+        this.emitEvent('request-parked', {
+          requestId: request.id,
+          url: request.url,
+          dependencyId: parentId,
+        });
+        return;
+      }
+
+      this.completions.reject(
+        request.id,
+        new DependencyFailedError(request, parentId)
+      );
+      if (request.restored && this.replayState) {
+        this.replayState.failed++;
+      }
+      this.emitEvent('request-cancelled', {
+        requestId: request.id,
+        url: request.url,
+        reason: 'dependency-failed',
+        dependencyId: parentId,
+      });
+    });
+
+    this.statistics.queuedRequests = this.queue.size();
+    this.checkReplayDrained();
+  }
+
+  /**
+   * Add an idempotency key to queued mutations so replays are safe to repeat
+   */
+  private withIdempotencyKey(
+    method: string,
+    headers: Record<string, string> | undefined
+  ): Record<string, string> | undefined {
+    const headerName =
+      this.config.queue?.idempotencyHeader ?? 'Idempotency-Key';
+    if (
+      headerName === false ||
+      ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase()) ||
+      getHeader(headers, headerName) !== undefined
+    ) {
+      return headers;
+    }
+
+    return {
+      ...headers,
+      // One key per queue entry: a dedupeKey names an operation that is
+      // repeated later, a server would answer those from its first result
+      [headerName]: generateId(),
+    };
   }
 
   /**
@@ -206,48 +1074,159 @@ export class NetworkHandler {
   private async executeFetch(
     url: string,
     options: RequestInit,
-    retryConfig: RetryConfig
+    retryConfig: RetryConfig,
+    extras: {
+      requestId?: string;
+      queued?: boolean;
+      attempts?: RequestAttempt[];
+      timeout?: number | false;
+      deadlineAt?: number;
+      deadline?: number;
+    } = {}
   ): Promise<Response> {
+    const { attempts, deadlineAt } = extras;
     let retryCount = 0;
+    const attemptTimeout = this.getAttemptTimeout(extras.timeout);
+
+    // The deadline covers every attempt and the backoff between them
+    const deadlineTimer =
+      deadlineAt !== undefined
+        ? abortAfter(deadlineAt - Date.now())
+        : undefined;
+    const deadlineError = () =>
+      new TimeoutError(
+        extras.deadline ?? Math.max(0, deadlineAt! - Date.now()),
+        'deadline'
+      );
+    const outer = combineSignals(options.signal, deadlineTimer?.signal);
+
+    // Last step of the middleware chain
+    const send = async (request: MiddlewareRequest): Promise<Response> => {
+      const origin = getOrigin(request.url);
+      // Fail fast while the origin's circuit is open
+      if (this.breaker && !this.breaker.tryAcquire(origin)) {
+        throw new CircuitOpenError(origin, this.breaker.retryAt(origin));
+      }
+
+      try {
+        const response = await this.fetchAttempt(
+          request.url,
+          request.options,
+          attemptTimeout,
+          deadlineTimer?.signal,
+          deadlineError
+        );
+        this.breaker?.record(origin, response.status >= 500);
+        return response;
+      } catch (error) {
+        // Aborted requests say nothing about the origin's health
+        const aborted =
+          error instanceof RequestAbortedError ||
+          (error instanceof TimeoutError && error.kind === 'deadline');
+        if (aborted) {
+          this.breaker?.release(origin);
+        } else {
+          this.breaker?.record(origin, true);
+        }
+        throw error;
+      }
+    };
 
     try {
+      if (deadlineTimer?.signal.aborted) {
+        throw deadlineError();
+      }
+
       const response = (await executeWithRetry(
         async (attempt) => {
           retryCount = attempt;
           if (retryCount > 1) {
             this.statistics.retryAttempts++;
-            this.emitEvent('request-retried', { url, attempt });
+          } else {
+            this.retryBudget?.recordRequest();
           }
 
-          const signal = options.signal || new AbortController().signal;
-          const fetchResponse = await fetch(url, {
-            ...options,
-            signal,
-          });
-
-          if (
-            !fetchResponse.ok &&
-            isRetryableError({ response: fetchResponse }, retryConfig)
-          ) {
-            throw new Error(
-              `HTTP ${fetchResponse.status}: ${fetchResponse.statusText}`
+          const record: RequestAttempt = { attempt, timestamp: Date.now() };
+          attempts?.push(record);
+
+          try {
+            // Auth runs last, so middleware sees one request per attempt
+            const attemptResponse = await runMiddleware(
+              this.authMiddleware
+                ? [...this.middleware, this.authMiddleware]
+                : this.middleware,
+              {
+                url,
+                options: {
+                  ...options,
+                  headers: toHeaderRecord(options.headers) || {},
+                  signal: outer.signal,
+                },
+                attempt,
+                requestId: extras.requestId,
+                queued: !!extras.queued,
+              },
+              send
             );
-          }
+            record.status = attemptResponse.status;
 
-          return fetchResponse;
+            if (
+              !attemptResponse.ok &&
+              isRetryableError({ response: attemptResponse }, retryConfig)
+            ) {
+              throw new HttpError(attemptResponse);
+            }
+
+            return attemptResponse;
+          } catch (error) {
+            record.error = (error as Error)?.message ?? String(error);
+            throw error;
+          }
         },
         retryConfig,
-        options.signal || undefined
+        outer.signal,
+        {
+          canRetry: () => {
+            if (!this.retryBudget || this.retryBudget.tryRetry()) {
+              return true;
+            }
+            this.emitEvent('retry-budget-exhausted', { url });
+            return false;
+          },
+          onRetry: ({ attempt, delay, retryAfter }) => {
+            this.emitEvent('request-retried', {
+              url,
+              attempt,
+              delay,
+              retryAfter,
+            });
+          },
+        }
       )) as Response;
 
       this.statistics.successfulRequests++;
       this.emitEvent('request-succeeded', { url });
       return response;
-    } catch (error) {
-      this.statistics.failedRequests++;
-      this.emitEvent('request-failed', { url, error });
+    } catch (caught) {
+      // An abort caused by the deadline surfaces as a TimeoutError
+      const error =
+        deadlineTimer?.signal.aborted && !(caught instanceof TimeoutError)
+          ? deadlineError()
+          : caught;
+      if (error instanceof RequestAbortedError) {
+        this.emitEvent('request-cancelled', {
+          requestId: extras.requestId,
+          url,
+          reason: 'aborted',
+        });
+      } else {
+        this.statistics.failedRequests++;
+        this.emitEvent('request-failed', { url, error });
+      }
       throw error;
     } finally {
+      deadlineTimer?.clear();
+      outer.dispose();
       // Update retry success rate
       if (this.statistics.totalRequests > 0) {
         this.statistics.retrySuccessRate =
@@ -257,19 +1236,61 @@ export class NetworkHandler {
   }
 
   /**
-   * Process queued request
+   * Run a single fetch attempt, aborting it after the attempt timeout
    */
-  private async processQueuedRequest(requestId: string): Promise<Response> {
-    const requests = this.queue.getAll();
-    const request = requests.find((req) => req.id === requestId);
-
-    if (!request) {
-      throw new Error(`Request ${requestId} not found in queue`);
+  private async fetchAttempt(
+    url: string,
+    options: RequestInit,
+    timeout: number | undefined,
+    deadlineSignal: AbortSignal | undefined,
+    deadlineError: () => TimeoutError
+  ): Promise<Response> {
+    const timer = timeout !== undefined ? abortAfter(timeout) : undefined;
+    const combined = combineSignals(options.signal, timer?.signal);
+    const startTime = Date.now();
+    try {
+      const response = await this.transportFetch(url, {
+        ...options,
+        signal: combined.signal,
+      });
+      // fetch resolves before the body downloads, so the sample has no
+      // bytes: Content-Length over time to headers isn't a throughput
+      this.detector.recordSample?.({ duration: Date.now() - startTime });
+      return response;
+    } catch (error) {
+      // Tell the platform errors apart by what caused them
+      if (deadlineSignal?.aborted) {
+        throw deadlineError();
+      }
+      if (options.signal?.aborted) {
+        throw new RequestAbortedError(options.signal.reason);
+      }
+      if (timer?.signal.aborted) {
+        this.detector.recordSample?.({
+          duration: Date.now() - startTime,
+          failed: true,
+        });
+        throw new TimeoutError(timeout!, 'attempt');
+      }
+      if (isNetworkFailure(error)) {
+        this.detector.recordSample?.({
+          duration: Date.now() - startTime,
+          failed: true,
+        });
+        throw new NetworkUnavailableError(error);
+      }
+      throw error;
+    } finally {
+      timer?.clear();
+      combined.dispose();
     }
+  }
 
-    await this.queue.remove(requestId);
-    this.emitEvent('request-dequeued', { requestId });
-
+  /**
+   * Send a request taken off the queue
+   * Requests that fail permanently are moved to the dead-letter queue
+   */
+  private async deliver(request: QueuedRequest): Promise<Response> {
     const options: RequestInit = {
       method: request.method,
       headers: request.headers,
@@ -283,52 +1304,219 @@ export class NetworkHandler {
       ...request.retryConfig,
     };
 
-    return this.executeFetch(request.url, options, retryConfig);
+    const attempts: RequestAttempt[] = [];
+    try {
+      const response = await this.trackDependency(request.id, () =>
+        this.executeFetch(request.url, options, retryConfig, {
+          requestId: request.id,
+          queued: true,
+          attempts,
+          timeout: request.timeout,
+          deadlineAt: request.deadlineAt,
+          deadline: request.deadline,
+        })
+      );
+      if (!response.ok) {
+        await this.addDeadLetter(request, new HttpError(response), attempts);
+      }
+      return response;
+    } catch (error) {
+      // Aborted by the caller, nothing to keep
+      if (!(error instanceof RequestAbortedError)) {
+        await this.addDeadLetter(request, error, attempts);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Keep a permanently failed request in the dead-letter queue
+   */
+  private async addDeadLetter(
+    request: QueuedRequest,
+    error: unknown,
+    attempts: RequestAttempt[]
+  ): Promise<void> {
+    if (this.config.deadLetter?.enabled === false) {
+      console.warn('Failed to process queued request:', error);
+      return;
+    }
+
+    const letter = await this.deadLetters.add(request, error, attempts);
+    this.emitEvent('request-dead-lettered', {
+      requestId: letter.id,
+      url: letter.request.url,
+      error: letter.error,
+      attempts: letter.attempts.length,
+    });
   }
 
   /**
    * Process all queued requests
    */
   private async processQueue(): Promise<void> {
-    if (this.processingQueue || !this.currentStatus.isOnline) {
+    if (this.processingQueue || !this.canDrain()) {
       return;
     }
 
     this.processingQueue = true;
 
     try {
-      while (this.queue.size() > 0 && this.currentStatus.isOnline) {
-        const request = this.queue.dequeue();
-        if (!request) break;
+      await this.queue.whenLoaded();
+
+      while (this.queue.size() > 0 && this.canDrain()) {
+        // Only take a request off the queue once it can start right away,
+        // so it stays persisted until it is actually sent
+        const request = this.limiter.hasCapacity()
+          ? this.queue.dequeue(this.nextSendable())
+          : undefined;
+        if (!request) {
+          if (this.limiter.activeCount() === 0) {
+            // Everything left is parked or waits on requests outside the queue
+            break;
+          }
+          await this.limiter.whenChanged();
+          continue;
+        }
 
         this.emitEvent('request-dequeued', { requestId: request.id });
+        this.limiter.run(() => this.sendQueuedRequest(request), request.lane);
+      }
+    } finally {
+      this.processingQueue = false;
+      this.statistics.queuedRequests = this.queue.size();
+    }
+  }
 
-        try {
-          const options: RequestInit = {
-            method: request.method,
-            headers: request.headers,
-            body: request.body,
-            signal: request.abortController?.signal || undefined,
-          };
-
-          const retryConfig: RetryConfig = {
-            ...defaultRetryConfig,
-            ...this.config.retry,
-            ...request.retryConfig,
-          };
-
-          await this.executeFetch(request.url, options, retryConfig);
-        } catch (error) {
-          // Request failed, but we continue processing other queued requests
-          console.warn('Failed to process queued request:', error);
+  /**
+   * Build the dequeue predicate picking the next request that may be sent
+   * A request waits while an earlier request of its lane is queued or
+   * running, while a dependency is pending, or while it is parked
+   */
+  private nextSendable(): (request: QueuedRequest) => boolean {
+    const seenLanes = new Set<string>();
+    return (request) => {
+      if (request.lane !== undefined) {
+        if (
+          seenLanes.has(request.lane) ||
+          this.limiter.isLaneBusy(request.lane)
+        ) {
+          return false;
         }
+        seenLanes.add(request.lane);
+      }
+      return (
+        !request.parked &&
+        this.dependenciesMet(request) &&
+        (!this.breaker || this.breaker.allows(getOrigin(request.url)))
+      );
+    };
+  }
+
+  /**
+   * Drain requests held back by an open circuit once it lets probes through
+   */
+  private resumeAfterCooldown(origin: string): void {
+    const retryAt = this.breaker?.retryAt(origin);
+    if (retryAt === undefined) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.breakerTimers.delete(timer);
+      this.limiter.refresh();
+      this.processQueue();
+    }, Math.max(0, retryAt - Date.now()));
+    this.breakerTimers.add(timer);
+  }
+
+  /**
+   * Send a request taken off the queue by processQueue
+   */
+  private async sendQueuedRequest(request: QueuedRequest): Promise<void> {
+    if (request.restored && this.replayState) {
+      this.replayState.inFlight++;
+    }
+
+    try {
+      const response = await this.deliver(request);
+
+      if (request.restored) {
+        await this.replayResponse(request, response);
+      }
+      this.completions.resolve(request.id, response);
+    } catch (error) {
+      this.completions.reject(request.id, error);
+      // Request failed, but we continue processing other queued requests
+      if (request.restored && this.replayState) {
+        this.replayState.failed++;
       }
     } finally {
-      this.processingQueue = false;
+      if (request.restored && this.replayState) {
+        this.replayState.inFlight--;
+        this.checkReplayDrained();
+      }
       this.statistics.queuedRequests = this.queue.size();
     }
   }
 
+  /**
+   * Hand the response of a restored request to its replay handler
+   */
+  private async replayResponse(
+    request: QueuedRequest,
+    response: Response
+  ): Promise<void> {
+    const handler = request.replayHandler
+      ? this.replayHandlers.get(request.replayHandler)
+      : undefined;
+
+    if (request.replayHandler && !handler) {
+      console.warn(
+        `No replay handler registered for "${request.replayHandler}"`
+      );
+    }
+
+    if (handler) {
+      try {
+        await handler(response, request);
+      } catch (error) {
+        console.error('Error in replay handler:', error);
+      }
+    }
+
+    if (this.replayState) {
+      this.replayState.replayed++;
+    }
+    this.emitEvent('request-replayed', {
+      requestId: request.id,
+      url: request.url,
+      status: response.status,
+      replayHandler: request.replayHandler,
+      handled: handler !== undefined,
+    });
+  }
+
+  /**
+   * Emit replay-drained once no restored request is left in the queue
+   */
+  private checkReplayDrained(): void {
+    if (
+      !this.replayState ||
+      this.replayState.drained ||
+      this.replayState.inFlight > 0 ||
+      this.queue.restoredSize() > 0
+    ) {
+      return;
+    }
+
+    this.replayState.drained = true;
+    this.emitEvent('replay-drained', {
+      replayed: this.replayState.replayed,
+      failed: this.replayState.failed,
+      expired: this.replayState.expired,
+    });
+  }
+
   /**
    * Get queued requests
    */
@@ -344,6 +1532,261 @@ export class NetworkHandler {
     this.statistics.queuedRequests = 0;
   }
 
+  /**
+   * Get requests that failed permanently, oldest first
+   */
+  getDeadLetters(): DeadLetter[] {
+    return this.deadLetters.getAll();
+  }
+
+  /**
+   * Queue a dead letter again
+   * Resolves with its response once sent, a new failure dead-letters it again
+   */
+  async retryDeadLetter(id: string): Promise<Response> {
+    const letter = this.deadLetters.get(id);
+    if (!letter) {
+      throw new Error(`Dead letter ${id} not found`);
+    }
+
+    // The retry starts over: expiry and deadline of the first try have
+    // passed, its dependencies settled long ago. Only what is sent and how
+    // carries over
+    const request = letter.request;
+    const response = this.completions.register(letter.id);
+    try {
+      await this.queue.enqueue(
+        {
+          url: request.url,
+          method: request.method,
+          headers: request.headers,
+          body: request.body,
+          priority: request.priority,
+          retryConfig: request.retryConfig,
+          replayHandler: request.replayHandler,
+          dedupeKey: request.dedupeKey,
+          lane: request.lane,
+          timeout: request.timeout,
+          abortController: new AbortController(),
+        },
+        { id: letter.id }
+      );
+    } catch (error) {
+      this.completions.delete(letter.id);
+      throw error;
+    }
+    // Only once it is queued again, a failed enqueue keeps the letter
+    await this.deadLetters.remove(id);
+    this.emitEvent('request-queued', {
+      requestId: letter.id,
+      url: letter.request.url,
+    });
+    this.statistics.queuedRequests = this.queue.size();
+    this.processQueue();
+
+    return response.then((result) => result.clone());
+  }
+
+  /**
+   * Drop a dead letter for good
+   */
+  async discardDeadLetter(id: string): Promise<boolean> {
+    return this.deadLetters.remove(id);
+  }
+
+  /**
+   * Drop all dead letters
+   */
+  async clearDeadLetters(): Promise<void> {
+    await this.deadLetters.clear();
+  }
+
+  /**
+   * Drop the cached responses of a URL, or the one of a cacheKey
+   */
+  async invalidateCache(key: string): Promise<boolean> {
+    return this.cache ? this.cache.delete(key) : false;
+  }
+
+  /**
+   * Drop all cached responses
+   */
+  async clearCache(): Promise<void> {
+    await this.cache?.clear();
+  }
+
+  /**
+   * Export dead letters in a JSON-safe form, e.g. for a support ticket
+   */
+  exportDeadLetters(): Promise<StoredDeadLetter[]> {
+    return this.deadLetters.export();
+  }
+
+  /**
+   * Cancel a queued request
+   * Its smartFetch promise rejects with RequestCancelledError and requests
+   * depending on it are cancelled or parked
+   */
+  async cancelRequest(requestId: string): Promise<boolean> {
+    const request = this.queue.get(requestId);
+    if (!request || !(await this.queue.remove(requestId))) {
+      return false;
+    }
+
+    this.completions.reject(requestId, new RequestCancelledError(request));
+    this.emitEvent('request-cancelled', {
+      requestId,
+      url: request.url,
+      reason: 'manual',
+    });
+    this.queue.failDependency(requestId);
+
+    this.statistics.queuedRequests = this.queue.size();
+    this.checkReplayDrained();
+    return true;
+  }
+
+  /**
+   * Send a queued request right away, even while the queue is paused
+   * Its smartFetch promise settles with the outcome. Returns false while
+   * a dependency is pending or an earlier request of its lane waits or runs
+   */
+  async retryRequest(requestId: string): Promise<boolean> {
+    const queued = this.queue.get(requestId);
+    if (
+      !queued ||
+      !this.dependenciesMet(queued) ||
+      this.isLaneBlocked(queued)
+    ) {
+      return false;
+    }
+
+    await this.queue.unpark(requestId);
+    const request = this.queue.dequeue((req) => req.id === requestId);
+    if (!request) {
+      return false;
+    }
+
+    this.emitEvent('request-updated', { requestId, change: 'retry' });
+    this.emitEvent('request-dequeued', { requestId });
+    // Dependents keep waiting while the request waits for a slot
+    this.inFlightIds.add(requestId);
+    this.limiter.run(() => this.sendQueuedRequest(request), request.lane);
+    this.statistics.queuedRequests = this.queue.size();
+    return true;
+  }
+
+  /**
+   * Check whether an earlier request of the given one's lane is queued or
+   * running
+   */
+  private isLaneBlocked(request: QueuedRequest): boolean {
+    const { lane } = request;
+    if (lane === undefined) {
+      return false;
+    }
+    const queued = this.queue.getAll();
+    return (
+      this.limiter.isLaneBusy(lane) ||
+      queued.slice(0, queued.indexOf(request)).some((req) => req.lane === lane)
+    );
+  }
+
+  /**
+   * Stop sending queued requests until resumeQueue is called
+   * Requests keep being queued, the paused state is not persisted
+   */
+  pauseQueue(): void {
+    if (this.paused) {
+      return;
+    }
+    this.paused = true;
+    this.emitEvent('queue-paused', { queuedRequests: this.queue.size() });
+  }
+
+  /**
+   * Resume sending queued requests
+   */
+  resumeQueue(): void {
+    if (!this.paused) {
+      return;
+    }
+    this.paused = false;
+    this.emitEvent('queue-resumed', { queuedRequests: this.queue.size() });
+    this.processQueue();
+  }
+
+  /**
+   * Check whether draining the queue is paused
+   */
+  isQueuePaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Change the priority of a queued request
+   */
+  async setRequestPriority(
+    requestId: string,
+    priority: number
+  ): Promise<boolean> {
+    const updated = await this.queue.update(requestId, { priority });
+    if (updated) {
+      this.emitEvent('request-updated', {
+        requestId,
+        change: 'priority',
+        priority,
+      });
+    }
+    return updated !== undefined;
+  }
+
+  /**
+   * Move a queued request to the front of the queue
+   */
+  async moveToFront(requestId: string): Promise<boolean> {
+    const moved = await this.queue.moveToFront(requestId);
+    if (moved) {
+      this.emitEvent('request-updated', {
+        requestId,
+        change: 'moved-to-front',
+      });
+    }
+    return moved !== undefined;
+  }
+
+  /**
+   * Change headers of a queued request, e.g. to refresh an expired token
+   * An object is merged into the current headers, a function replaces them
+   */
+  async updateRequestHeaders(
+    requestId: string,
+    headers:
+      | Record<string, string>
+      | ((current: Record<string, string>) => Record<string, string>)
+  ): Promise<boolean> {
+    const request = this.queue.get(requestId);
+    if (!request) {
+      return false;
+    }
+
+    const current = request.headers || {};
+    const updated = await this.queue.update(requestId, {
+      headers:
+        typeof headers === 'function'
+          ? headers({ ...current })
+          : { ...current, ...headers },
+    });
+    if (updated) {
+      this.emitEvent('request-updated', {
+        requestId,
+        change: 'headers',
+        headers: Object.keys(updated.headers || {}),
+      });
+    }
+    return updated !== undefined;
+  }
+
   /**
    * Emit event to telemetry callbacks
    */
@@ -384,6 +1827,9 @@ export class NetworkHandler {
       this.unsubscribe();
     }
     this.detector.stopMonitoring();
+    this.queue.destroy();
+    this.breakerTimers.forEach((timer) => clearTimeout(timer));
+    this.breakerTimers.clear();
     this.statusListeners.clear();
     this.telemetryCallbacks.clear();
   }
@@ -0,0 +1,233 @@
+import type {
+  EndpointProbeConfig,
+  ProbeContext,
+  ProbeResult,
+  ProbeStrategy,
+  Transport,
+} from '../types';
+import { abortAfter } from '../utils/abort';
+import { median } from '../utils/stats';
+
+/**
+ * Send one probe request and time it
+ * Resolves undefined when the request fails or the status is not 2xx, an
+ * unreachable endpoint must not look fast.
+ */
+async function timeRequest(
+  transport: Transport,
+  url: string,
+  method: 'HEAD' | 'GET',
+  timeout: number
+): Promise<{ duration: number; bytes: number } | undefined> {
+  const timer = abortAfter(timeout);
+  const startTime = performance.now();
+  try {
+    const response = await transport(url, {
+      method,
+      signal: timer.signal,
+      cache: 'no-store',
+    });
+    if (!response.ok) {
+      return undefined;
+    }
+    const bytes =
+      method === 'GET' ? (await response.arrayBuffer()).byteLength : 0;
+    return { duration: performance.now() - startTime, bytes };
+  } catch {
+    return undefined;
+  } finally {
+    timer.clear();
+  }
+}
+
+/**
+ * Probe an own health endpoint
+ * Latency is the round trip of a HEAD request. Throughput is measured with a
+ * GET when enabled and data saver is not respected, and left out when that
+ * GET fails.
+ */
+export function endpointProbe(config: EndpointProbeConfig): ProbeStrategy {
+  const timeout = config.timeout ?? 5000;
+
+  return {
+    name: 'endpoint',
+    async probe(context: ProbeContext): Promise<ProbeResult> {
+      const head = await timeRequest(
+        context.transport,
+        config.url,
+        'HEAD',
+        timeout
+      );
+      if (!head) {
+        return { latency: Infinity };
+      }
+
+      let throughput: number | undefined;
+      if (config.throughput && !context.respectDataSaver) {
+        const get = await timeRequest(
+          context.transport,
+          config.url,
+          'GET',
+          timeout
+        );
+        // A failed download or one too fast to time says nothing
+        throughput =
+          get && get.duration > 0
+            ? get.bytes / (get.duration / 1000)
+            : undefined;
+      }
+      return { latency: head.duration, throughput };
+    },
+  };
+}
+
+/**
+ * Probe several endpoints at once and report the median
+ * One blocked or slow endpoint does not decide the quality, most of them
+ * must fail for the network to count as unreachable.
+ */
+export function medianProbe(
+  urls: string[],
+  config: Omit<EndpointProbeConfig, 'url'> = {}
+): ProbeStrategy {
+  return {
+    ...combineProbes(
+      urls.map((url) => endpointProbe({ ...config, url })),
+      'median'
+    ),
+    name: 'median',
+  };
+}
+
+/**
+ * Read the Network Information API
+ * Uses the browser's rtt and downlink estimates, no request is sent.
+ * Reports nothing where the API is missing (Safari, Firefox).
+ */
+export function connectionProbe(): ProbeStrategy {
+  return {
+    name: 'network-information',
+    async probe(): Promise<ProbeResult | undefined> {
+      const connection =
+        typeof navigator !== 'undefined'
+          ? (navigator as any).connection ||
+            (navigator as any).mozConnection ||
+            (navigator as any).webkitConnection
+          : undefined;
+      if (!connection || typeof connection.rtt !== 'number') {
+        return undefined;
+      }
+      return {
+        latency: connection.rtt,
+        // downlink is in megabits per second
+        throughput:
+          typeof connection.downlink === 'number'
+            ? (connection.downlink * 1e6) / 8
+            : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Measure traffic the app made anyway
+ * Reads Resource Timing entries of the last period, no request is sent.
+ * Cross-origin entries only count when their server sends
+ * Timing-Allow-Origin.
+ */
+export function passiveProbe(period = 60000): ProbeStrategy {
+  return {
+    name: 'passive',
+    async probe(): Promise<ProbeResult | undefined> {
+      if (
+        typeof performance === 'undefined' ||
+        typeof performance.getEntriesByType !== 'function'
+      ) {
+        return undefined;
+      }
+
+      const since = performance.now() - period;
+      const entries = (
+        performance.getEntriesByType('resource') as PerformanceResourceTiming[]
+      ).filter((entry) => entry.startTime >= since && entry.responseStart > 0);
+
+      const latency = median(
+        entries.map((entry) => entry.responseStart - entry.requestStart)
+      );
+      if (latency === undefined) {
+        return undefined;
+      }
+
+      let bytes = 0;
+      let seconds = 0;
+      entries.forEach((entry) => {
+        if (entry.transferSize > 0 && entry.responseEnd > entry.responseStart) {
+          bytes += entry.transferSize;
+          seconds += (entry.responseEnd - entry.responseStart) / 1000;
+        }
+      });
+      return { latency, throughput: seconds > 0 ? bytes / seconds : undefined };
+    },
+  };
+}
+
+/**
+ * Combine strategies into one
+ * - first: try them in order, the first that reports wins
+ * - median: run them all at once and report the median of each measurement
+ * A strategy that throws counts as having nothing to report.
+ */
+export function combineProbes(
+  strategies: ProbeStrategy[],
+  mode: 'first' | 'median' = 'first'
+): ProbeStrategy {
+  const run = (strategy: ProbeStrategy, context: ProbeContext) =>
+    strategy.probe(context).catch((error) => {
+      console.warn(`Quality probe ${strategy.name} failed:`, error);
+      return undefined;
+    });
+
+  return {
+    name: strategies.map((strategy) => strategy.name).join('+'),
+    async probe(context: ProbeContext): Promise<ProbeResult | undefined> {
+      if (mode === 'first') {
+        for (const strategy of strategies) {
+          const result = await run(strategy, context);
+          if (result) {
+            return result;
+          }
+        }
+        return undefined;
+      }
+
+      const results = (
+        await Promise.all(strategies.map((strategy) => run(strategy, context)))
+      ).filter((result): result is ProbeResult => result !== undefined);
+      if (results.length === 0) {
+        return undefined;
+      }
+      return {
+        latency: median(
+          results
+            .map((result) => result.latency)
+            .filter((value): value is number => value !== undefined)
+        ),
+        throughput: median(
+          results
+            .map((result) => result.throughput)
+            .filter((value): value is number => value !== undefined)
+        ),
+      };
+    },
+  };
+}
+
+/**
+ * Strategy used when the config names none
+ * The test endpoint when set, otherwise only what the browser knows already
+ */
+export function defaultProbe(testEndpoint?: string): ProbeStrategy {
+  return testEndpoint
+    ? endpointProbe({ url: testEndpoint, throughput: true })
+    : combineProbes([connectionProbe(), passiveProbe()]);
+}
@@ -0,0 +1,136 @@
+import type {
+  ReachabilityConfig,
+  ReachabilityResult,
+  Transport,
+} from '../types';
+import { abortAfter } from '../utils/abort';
+
+/**
+ * Check once whether the internet is reachable
+ * Any answer other than the expected one means something in between
+ * answered for the endpoint: a captive portal. Server errors and failed
+ * requests mean it is unreachable.
+ */
+export async function checkReachability(
+  transport: Transport,
+  config: ReachabilityConfig
+): Promise<ReachabilityResult> {
+  const timer = abortAfter(config.timeout ?? 5000);
+  try {
+    const response = await transport(config.url, {
+      method: 'GET',
+      cache: 'no-store',
+      redirect: 'manual',
+      signal: timer.signal,
+    });
+    if (response.status >= 500) {
+      return 'unreachable';
+    }
+    if (
+      response.redirected ||
+      response.status !== (config.expectedStatus ?? 204)
+    ) {
+      return 'captive-portal';
+    }
+    if (
+      config.expectedBody !== undefined &&
+      (await response.text()).trim() !== config.expectedBody.trim()
+    ) {
+      return 'captive-portal';
+    }
+    return 'reachable';
+  } catch {
+    return 'unreachable';
+  } finally {
+    timer.clear();
+  }
+}
+
+/**
+ * Reachability Checker
+ * Repeats the check while started: every interval while reachable, backing
+ * off exponentially from retryInterval while it is not
+ */
+export class ReachabilityChecker {
+  private config: ReachabilityConfig;
+  private transport: Transport;
+  private onResult: (result: ReachabilityResult) => void;
+  private failures = 0;
+  private running = false;
+  private timer?: ReturnType<typeof setTimeout>;
+  private pending?: Promise<ReachabilityResult>;
+
+  constructor(
+    config: ReachabilityConfig,
+    transport: Transport,
+    onResult: (result: ReachabilityResult) => void
+  ) {
+    this.config = config;
+    this.transport = transport;
+    this.onResult = onResult;
+  }
+
+  /**
+   * Check now and report the result
+   * Concurrent calls share the check in progress.
+   */
+  check(): Promise<ReachabilityResult> {
+    if (!this.pending) {
+      this.pending = checkReachability(this.transport, this.config).then(
+        (result) => {
+          this.pending = undefined;
+          this.failures = result === 'reachable' ? 0 : this.failures + 1;
+          this.onResult(result);
+          if (this.running) {
+            this.schedule();
+          }
+          return result;
+        }
+      );
+    }
+    return this.pending;
+  }
+
+  /**
+   * Start repeating checks
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule();
+  }
+
+  /**
+   * Stop repeating checks, e.g. while the device is offline
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Get delay until the next check
+   */
+  getNextDelay(): number {
+    if (this.failures === 0) {
+      return this.config.interval ?? 30000;
+    }
+    return Math.min(
+      (this.config.retryInterval ?? 5000) * 2 ** (this.failures - 1),
+      this.config.maxRetryInterval ?? 300000
+    );
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.check();
+    }, this.getNextDelay());
+  }
+}
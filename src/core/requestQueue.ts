@@ -1,4 +1,64 @@
-import type { QueuedRequest, QueueConfig, StorageAdapter } from '../types';
+import type {
+  QueuedRequest,
+  QueueConfig,
+  StorageAdapter,
+  EncodedBody,
+  QueueRecordStore,
+  StoredRequest,
+  DedupeStrategy,
+  QueueEvent,
+  RetryConfig,
+} from '../types';
+import { BodyCodecRegistry } from '../utils/bodyCodec';
+import { fillPlaceholders } from '../utils/placeholders';
+import { getHeader, withHeader } from '../utils/headers';
+import { generateId } from '../utils/id';
+import { DependencyFailedError, QueueFullError } from './errors';
+
+/**
+ * Number of settled dependencies remembered for requests queued later
+ */
+const SETTLED_DEPENDENCY_LIMIT = 100;
+
+/**
+ * Options for adding a request to the queue
+ */
+interface EnqueueOptions {
+  dedupeStrategy?: DedupeStrategy;
+  id?: string; // Client-assigned ID, generated when omitted
+}
+
+/**
+ * Check whether storage can write queued requests as individual records
+ */
+function isQueueRecordStore(
+  storage: StorageAdapter
+): storage is StorageAdapter & QueueRecordStore {
+  const candidate = storage as Partial<QueueRecordStore>;
+  return (
+    typeof candidate.getRecords === 'function' &&
+    typeof candidate.putRecord === 'function' &&
+    typeof candidate.deleteRecord === 'function' &&
+    typeof candidate.clearRecords === 'function'
+  );
+}
+
+/**
+ * Drop retry options that can't be stored (custom strategy, random source,
+ * clock), the handler's retry config applies to them after a restart
+ */
+function toStoredRetryConfig(
+  retryConfig?: Partial<RetryConfig>
+): Partial<RetryConfig> | undefined {
+  if (!retryConfig) {
+    return retryConfig;
+  }
+  return Object.fromEntries(
+    Object.entries(retryConfig).filter(
+      ([key, value]) => typeof value !== 'function' && key !== 'clock'
+    )
+  ) as Partial<RetryConfig>;
+}
 
 /**
  * Request Queue Manager
@@ -7,40 +67,158 @@ export class RequestQueue {
   private queue: QueuedRequest[] = [];
   private config: QueueConfig;
   private storage?: StorageAdapter;
+  private records?: QueueRecordStore;
   private storageKey: string;
+  private loaded: Promise<void>;
+  private codecs: BodyCodecRegistry;
+  private persisted: Map<
+    string,
+    { encodedBody?: EncodedBody; sequence: number }
+  > = new Map();
+  private nextSequence = 0;
+  private enqueueChain: Promise<unknown> = Promise.resolve();
+  private listeners: Set<(event: QueueEvent) => void> = new Set();
+  private pruneTimer?: ReturnType<typeof setInterval>;
+  private settled: Map<string, { ok: boolean; result?: unknown }> = new Map();
 
   constructor(config: QueueConfig, storage?: StorageAdapter) {
     this.config = config;
     this.storage = storage;
+    this.records = storage && isQueueRecordStore(storage) ? storage : undefined;
     this.storageKey = config.storageKey || 'network-smart-handler-queue';
+    this.codecs = new BodyCodecRegistry(config.bodyCodecs);
 
-    if (config.persistToStorage && storage) {
-      this.loadFromStorage();
-    }
+    this.loaded =
+      config.persistToStorage && storage
+        ? this.loadFromStorage()
+        : Promise.resolve();
+  }
+
+  /**
+   * Resolves once requests persisted by a previous session are restored
+   */
+  whenLoaded(): Promise<void> {
+    return this.loaded;
+  }
+
+  /**
+   * Listen to changes the queue makes on its own
+   */
+  subscribe(listener: (event: QueueEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   /**
    * Add request to queue
+   * Returns the ID of the queue entry, which is the existing entry's ID
+   * when the request collapsed into an already queued duplicate
    */
-  async enqueue(
-    request: Omit<QueuedRequest, 'id' | 'timestamp'>
+  enqueue(
+    request: Omit<QueuedRequest, 'id' | 'timestamp'>,
+    options: EnqueueOptions = {}
   ): Promise<string> {
-    const queuedRequest: QueuedRequest = {
+    // Serialize enqueues so concurrent duplicates see each other
+    const result = this.enqueueChain.then(() => this.insert(request, options));
+    this.enqueueChain = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Insert request, collapsing it into a queued duplicate if there is one
+   */
+  private async insert(
+    request: Omit<QueuedRequest, 'id' | 'timestamp'>,
+    options: EnqueueOptions
+  ): Promise<string> {
+    // Don't let a fresh write race the restore of the persisted queue
+    await this.loaded;
+    this.pruneExpired();
+
+    if (options.id !== undefined && this.has(options.id)) {
+      throw new Error(`Request ${options.id} is already queued`);
+    }
+
+    if (request.dedupeKey !== undefined) {
+      const existing = this.queue.find(
+        (req) => req.dedupeKey === request.dedupeKey
+      );
+      if (existing) {
+        return this.collapse(
+          existing,
+          request,
+          options.dedupeStrategy || this.config.dedupe || 'keep-first'
+        );
+      }
+    }
+
+    const now = Date.now();
+    let queuedRequest: QueuedRequest = {
       ...request,
-      id: this.generateId(),
-      timestamp: Date.now(),
+      id: options.id ?? generateId(),
+      timestamp: now,
+      expiresAt: this.expiryFor(request, now),
     };
 
+    // Dependencies may have settled before this request was queued
+    for (const parentId of queuedRequest.dependsOn || []) {
+      const outcome = this.settled.get(parentId);
+      if (outcome?.ok) {
+        queuedRequest = this.fillDependency(
+          queuedRequest,
+          parentId,
+          outcome.result
+        );
+      } else if (outcome && this.dependencyFailureAction() === 'park') {
+        queuedRequest.parked = true;
+      } else if (outcome) {
+        this.notify({
+          type: 'dependency-failed',
+          parentId,
+          requests: [queuedRequest],
+          action: 'cancel',
+        });
+        throw new DependencyFailedError(queuedRequest, parentId);
+      }
+    }
+
+    // Encode body up front so unstorable bodies are rejected before queueing
+    if (this.isPersistent()) {
+      this.persisted.set(queuedRequest.id, {
+        encodedBody: await this.codecs.encode(queuedRequest.body),
+        sequence: this.nextSequence++,
+      });
+    }
+
+    let dropped: QueuedRequest | undefined;
+
     // Check queue size limit
     if (this.config.maxSize && this.queue.length >= this.config.maxSize) {
       switch (this.config.policy) {
         case 'drop-oldest':
-          this.queue.shift(); // Remove oldest
+          dropped = this.queue.shift(); // Remove oldest
+          this.forget(dropped);
+          if (dropped) {
+            this.notify({
+              type: 'dropped',
+              requests: [dropped],
+              reason: 'queue-full',
+            });
+          }
           break;
         case 'drop-newest':
+          this.forget(queuedRequest);
+          this.notify({
+            type: 'dropped',
+            requests: [queuedRequest],
+            reason: 'queue-full',
+          });
           return queuedRequest.id; // Don't add new one
         case 'reject':
-          throw new Error('Queue is full');
+          this.forget(queuedRequest);
+          throw new QueueFullError(this.config.maxSize);
         case 'persist':
           // Continue to add (will be persisted)
           break;
@@ -50,8 +228,9 @@ export class RequestQueue {
     // Add to queue with priority support
     if (this.config.priority && queuedRequest.priority !== undefined) {
       // Insert based on priority (higher priority first)
+      // Restored requests always stay ahead of requests queued this session
       const insertIndex = this.queue.findIndex(
-        (req) => (req.priority || 0) < queuedRequest.priority!
+        (req) => !req.restored && (req.priority || 0) < queuedRequest.priority!
       );
       if (insertIndex === -1) {
         this.queue.push(queuedRequest);
@@ -64,20 +243,29 @@ export class RequestQueue {
     }
 
     // Persist if enabled
-    if (this.config.persistToStorage && this.storage) {
-      await this.saveToStorage();
-    }
+    await this.persistChanges({
+      put: [queuedRequest],
+      remove: dropped ? [dropped.id] : [],
+    });
+    this.schedulePrune();
 
     return queuedRequest.id;
   }
 
   /**
    * Remove and return next request
+   * With a predicate, the first request matching it is taken instead
    */
-  dequeue(): QueuedRequest | undefined {
-    const request = this.queue.shift();
-    if (request && this.config.persistToStorage && this.storage) {
-      this.saveToStorage();
+  dequeue(
+    predicate?: (request: QueuedRequest) => boolean
+  ): QueuedRequest | undefined {
+    this.pruneExpired();
+    const index = predicate ? this.queue.findIndex(predicate) : 0;
+    const request = index === -1 ? undefined : this.queue.splice(index, 1)[0];
+    if (request) {
+      this.forget(request);
+      this.persistChanges({ remove: [request.id] });
+      this.schedulePrune();
     }
     return request;
   }
@@ -96,6 +284,20 @@ export class RequestQueue {
     return [...this.queue];
   }
 
+  /**
+   * Get queued request by ID
+   */
+  get(id: string): QueuedRequest | undefined {
+    return this.queue.find((req) => req.id === id);
+  }
+
+  /**
+   * Check whether a request is queued
+   */
+  has(id: string): boolean {
+    return this.queue.some((req) => req.id === id);
+  }
+
   /**
    * Get queue size
    */
@@ -103,12 +305,255 @@ export class RequestQueue {
     return this.queue.length;
   }
 
+  /**
+   * Get number of restored requests still waiting to be replayed
+   */
+  restoredSize(): number {
+    return this.queue.filter((req) => req.restored).length;
+  }
+
+  /**
+   * Remove requests whose expiry has passed
+   * Returns the removed requests, listeners receive an 'expired' event
+   */
+  pruneExpired(now: number = Date.now()): QueuedRequest[] {
+    const expired = this.queue.filter(
+      (req) => req.expiresAt !== undefined && req.expiresAt <= now
+    );
+    if (expired.length === 0) {
+      return expired;
+    }
+
+    this.queue = this.queue.filter((req) => !expired.includes(req));
+    expired.forEach((req) => this.forget(req));
+    this.persistChanges({ remove: expired.map((req) => req.id) });
+    this.schedulePrune();
+    this.notify({ type: 'expired', requests: expired });
+    return expired;
+  }
+
+  /**
+   * Mark a dependency as met for the requests waiting on it
+   * Placeholders such as {{parentId.data.id}} in their URL, headers and body
+   * are filled in from the parent's parsed response
+   */
+  async resolveDependency(parentId: string, result: unknown): Promise<void> {
+    this.remember(parentId, { ok: true, result });
+    const dependents = this.queue.filter((req) =>
+      req.dependsOn?.includes(parentId)
+    );
+
+    for (const dependent of dependents) {
+      const updated = this.fillDependency(dependent, parentId, result);
+
+      if (this.isPersistent()) {
+        try {
+          this.persisted.set(dependent.id, {
+            encodedBody: await this.codecs.encode(updated.body),
+            sequence: this.persisted.get(dependent.id)?.sequence ?? 0,
+          });
+        } catch (error) {
+          console.warn(
+            `Filled body of queued request ${dependent.id} could not be persisted:`,
+            error
+          );
+        }
+      }
+
+      const index = this.queue.indexOf(dependent);
+      if (index !== -1) {
+        this.queue[index] = updated;
+        await this.persistChanges({ put: [updated] });
+      }
+    }
+  }
+
+  /**
+   * Handle a dependency that failed permanently
+   * 'cancel' removes its dependents and everything depending on them,
+   * 'park' holds its direct dependents back until they are unparked.
+   * Returns the affected requests, listeners receive a 'dependency-failed' event
+   */
+  failDependency(
+    parentId: string,
+    action: 'cancel' | 'park' = this.dependencyFailureAction()
+  ): QueuedRequest[] {
+    this.remember(parentId, { ok: false });
+    let affected: QueuedRequest[];
+
+    if (action === 'cancel') {
+      const cancelled = new Set<string>([parentId]);
+      affected = [];
+      // Queue order puts dependents after their parents, one pass per level
+      let found = true;
+      while (found) {
+        found = false;
+        this.queue.forEach((req) => {
+          if (
+            !cancelled.has(req.id) &&
+            req.dependsOn?.some((id) => cancelled.has(id))
+          ) {
+            cancelled.add(req.id);
+            affected.push(req);
+            found = true;
+          }
+        });
+      }
+      this.queue = this.queue.filter((req) => !affected.includes(req));
+      affected.forEach((req) => this.forget(req));
+      this.persistChanges({ remove: affected.map((req) => req.id) });
+      this.schedulePrune();
+    } else {
+      affected = [];
+      this.queue = this.queue.map((req) => {
+        if (!req.dependsOn?.includes(parentId)) {
+          return req;
+        }
+        const parked = { ...req, parked: true };
+        affected.push(parked);
+        return parked;
+      });
+      this.persistChanges({ put: affected });
+    }
+
+    if (affected.length > 0) {
+      this.notify({
+        type: 'dependency-failed',
+        parentId,
+        requests: affected,
+        action,
+      });
+    }
+    return affected;
+  }
+
+  /**
+   * Release a parked request so it can be sent again
+   */
+  async unpark(id: string): Promise<boolean> {
+    const index = this.queue.findIndex((req) => req.id === id && req.parked);
+    if (index === -1) {
+      return false;
+    }
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { parked, ...request } = this.queue[index]!;
+    this.queue[index] = request;
+    await this.persistChanges({ put: [request] });
+    return true;
+  }
+
+  /**
+   * Change a queued request in place
+   * A changed priority moves the request to its new place in a priority
+   * queue. Returns the updated request, or undefined if it isn't queued
+   */
+  async update(
+    id: string,
+    changes: Partial<Omit<QueuedRequest, 'id' | 'timestamp'>>
+  ): Promise<QueuedRequest | undefined> {
+    const index = this.queue.findIndex((req) => req.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+
+    const existing = this.queue[index]!;
+    const updated: QueuedRequest = { ...existing, ...changes, id };
+    if (this.isPersistent() && 'body' in changes) {
+      this.persisted.set(id, {
+        encodedBody: await this.codecs.encode(updated.body),
+        sequence: this.persisted.get(id)?.sequence ?? 0,
+      });
+    }
+
+    // The entry may have left the queue while the body was encoded
+    const current = this.queue.indexOf(existing);
+    if (current === -1) {
+      return undefined;
+    }
+    this.queue[current] = updated;
+
+    if (
+      this.config.priority &&
+      'priority' in changes &&
+      changes.priority !== existing.priority
+    ) {
+      this.queue.splice(current, 1);
+      const insertIndex = this.queue.findIndex(
+        (req) =>
+          (updated.restored && !req.restored) ||
+          (!!req.restored === !!updated.restored &&
+            (req.priority || 0) < (updated.priority || 0))
+      );
+      this.queue.splice(
+        insertIndex === -1 ? this.queue.length : insertIndex,
+        0,
+        updated
+      );
+    }
+
+    this.schedulePrune();
+    await this.persistChanges({ put: [updated] });
+    return updated;
+  }
+
+  /**
+   * Move a queued request ahead of every other request
+   * In a priority queue it also takes the highest queued priority, so it
+   * stays in front once the queue is restored
+   */
+  async moveToFront(id: string): Promise<QueuedRequest | undefined> {
+    const index = this.queue.findIndex((req) => req.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+
+    let request = this.queue.splice(index, 1)[0]!;
+    if (this.config.priority) {
+      const highest = Math.max(
+        request.priority || 0,
+        ...this.queue.map((req) => req.priority || 0)
+      );
+      request = { ...request, priority: highest };
+    }
+    this.queue.unshift(request);
+
+    const persisted = this.persisted.get(id);
+    if (persisted) {
+      const first = Math.min(
+        ...Array.from(this.persisted.values()).map((entry) => entry.sequence)
+      );
+      persisted.sequence = first - 1;
+    }
+    await this.persistChanges({ put: [request] });
+    return request;
+  }
+
+  /**
+   * Stop background pruning
+   */
+  destroy(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = undefined;
+    }
+    this.listeners.clear();
+  }
+
   /**
    * Clear queue
+   * Listeners receive a 'dropped' event with the removed requests
    */
   async clear(): Promise<void> {
+    const cleared = this.queue;
     this.queue = [];
-    if (this.config.persistToStorage && this.storage) {
+    this.persisted.clear();
+    if (cleared.length > 0) {
+      this.notify({ type: 'dropped', requests: cleared, reason: 'cleared' });
+    }
+    this.schedulePrune();
+    if (this.records && this.isPersistent()) {
+      await this.records.clearRecords(this.storageKey);
+    } else if (this.storage && this.isPersistent()) {
       await this.storage.removeItem(this.storageKey);
     }
   }
@@ -119,10 +564,9 @@ export class RequestQueue {
   async remove(id: string): Promise<boolean> {
     const index = this.queue.findIndex((req) => req.id === id);
     if (index !== -1) {
-      this.queue.splice(index, 1);
-      if (this.config.persistToStorage && this.storage) {
-        await this.saveToStorage();
-      }
+      this.forget(this.queue.splice(index, 1)[0]);
+      this.schedulePrune();
+      await this.persistChanges({ remove: [id] });
       return true;
     }
     return false;
@@ -135,22 +579,251 @@ export class RequestQueue {
     if (!this.storage) return;
 
     try {
-      const data = await this.storage.getItem(this.storageKey);
-      if (data) {
-        const parsed = JSON.parse(data);
-        this.queue = parsed.map((req: any) => ({
-          ...req,
-          // Recreate abort controller if needed
-          abortController: req.abortController
-            ? new AbortController()
-            : undefined,
-        }));
+      let stored: StoredRequest[] = [];
+      if (this.records) {
+        stored = await this.records.getRecords(this.storageKey);
+        // Rebuild the in-memory order the records were written in
+        stored.sort(
+          (a, b) =>
+            (this.config.priority
+              ? (b.priority || 0) - (a.priority || 0)
+              : 0) || (a.sequence ?? a.timestamp) - (b.sequence ?? b.timestamp)
+        );
+      } else {
+        const data = await this.storage.getItem(this.storageKey);
+        stored = data ? JSON.parse(data) : [];
+      }
+
+      if (stored.length > 0) {
+        const restored: QueuedRequest[] = [];
+        stored.forEach((req: any) => {
+          const { encodedBody, sequence, ...rest } = req;
+          const position = sequence ?? this.nextSequence;
+          this.nextSequence = Math.max(this.nextSequence, position + 1);
+          const request: QueuedRequest = {
+            ...rest,
+            restored: true,
+            // Recreate abort controller if needed
+            abortController: req.abortController
+              ? new AbortController()
+              : undefined,
+          };
+
+          this.persisted.set(request.id, { encodedBody, sequence: position });
+          if (encodedBody) {
+            try {
+              request.body = this.codecs.decode(encodedBody);
+            } catch (error) {
+              this.forget(request);
+              console.warn(
+                `Dropping queued request ${request.id}, body could not be restored:`,
+                error
+              );
+              return;
+            }
+          }
+          restored.push(request);
+        });
+
+        // Restored backlog always replays before anything queued later
+        this.queue = [...restored, ...this.queue];
+        this.pruneExpired();
+        this.schedulePrune();
       }
     } catch (error) {
       console.warn('Failed to load queue from storage:', error);
     }
   }
 
+  /**
+   * Collapse incoming request into a queued duplicate
+   */
+  private async collapse(
+    existing: QueuedRequest,
+    incoming: Omit<QueuedRequest, 'id' | 'timestamp'>,
+    strategy: DedupeStrategy
+  ): Promise<string> {
+    if (strategy !== 'keep-first') {
+      const identity = {
+        id: existing.id,
+        timestamp: existing.timestamp,
+        restored: existing.restored,
+      };
+      let updated: QueuedRequest = {
+        ...incoming,
+        ...identity,
+        expiresAt: this.expiryFor(incoming, Date.now()),
+      };
+
+      if (strategy === 'merge') {
+        if (this.config.mergeDuplicates) {
+          updated = {
+            ...existing,
+            ...this.config.mergeDuplicates(existing, updated),
+            ...identity,
+          };
+        } else {
+          console.warn(
+            'Queue dedupe strategy is "merge" but no mergeDuplicates callback is configured, keeping the latest request'
+          );
+        }
+      }
+
+      // Still the same operation to the server, keep its idempotency key
+      const headerName = this.config.idempotencyHeader ?? 'Idempotency-Key';
+      const key = headerName
+        ? getHeader(existing.headers, headerName)
+        : undefined;
+      if (headerName && key !== undefined) {
+        updated.headers = withHeader(updated.headers, headerName, key);
+      }
+
+      if (this.isPersistent()) {
+        this.persisted.set(existing.id, {
+          encodedBody: await this.codecs.encode(updated.body),
+          sequence: this.persisted.get(existing.id)?.sequence ?? 0,
+        });
+      }
+
+      // Keep the original position, only the content is replaced
+      const index = this.queue.indexOf(existing);
+      if (index !== -1) {
+        this.queue[index] = updated;
+        await this.persistChanges({ put: [updated] });
+        this.schedulePrune();
+      }
+      existing = updated;
+    }
+
+    this.notify({ type: 'deduplicated', request: existing, strategy });
+    return existing.id;
+  }
+
+  /**
+   * Fill placeholders of a parent into a request and drop the dependency
+   */
+  private fillDependency(
+    request: QueuedRequest,
+    parentId: string,
+    result: unknown
+  ): QueuedRequest {
+    const dependsOn = request.dependsOn!.filter((id) => id !== parentId);
+    const filled: QueuedRequest = {
+      ...request,
+      url: fillPlaceholders(request.url, parentId, result),
+      body: fillPlaceholders(request.body, parentId, result),
+      dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+    };
+    if (request.headers) {
+      filled.headers = {};
+      Object.entries(request.headers).forEach(([name, value]) => {
+        filled.headers![name] = fillPlaceholders(value, parentId, result);
+      });
+    }
+    return filled;
+  }
+
+  /**
+   * Remember how a dependency settled, for requests queued after it
+   */
+  private remember(
+    parentId: string,
+    outcome: { ok: boolean; result?: unknown }
+  ): void {
+    this.settled.delete(parentId);
+    this.settled.set(parentId, outcome);
+    if (this.settled.size > SETTLED_DEPENDENCY_LIMIT) {
+      this.settled.delete(this.settled.keys().next().value!);
+    }
+  }
+
+  private dependencyFailureAction(): 'cancel' | 'park' {
+    return this.config.onDependencyFailure || 'cancel';
+  }
+
+  /**
+   * Expiry of a request: its own, else the queue-wide TTL
+   */
+  private expiryFor(
+    request: Omit<QueuedRequest, 'id' | 'timestamp'>,
+    now: number
+  ): number | undefined {
+    const expiresAt =
+      request.expiresAt ??
+      (this.config.ttl !== undefined ? now + this.config.ttl : undefined);
+    // Nothing can be sent once the deadline passed
+    if (
+      request.deadlineAt !== undefined &&
+      (expiresAt === undefined || request.deadlineAt < expiresAt)
+    ) {
+      return request.deadlineAt;
+    }
+    return expiresAt;
+  }
+
+  /**
+   * Run the prune timer only while some queued request can expire
+   */
+  private schedulePrune(): void {
+    const hasExpiring = this.queue.some((req) => req.expiresAt !== undefined);
+    if (hasExpiring && !this.pruneTimer) {
+      this.pruneTimer = setInterval(
+        () => this.pruneExpired(),
+        this.config.pruneInterval ?? 60000
+      );
+    } else if (!hasExpiring && this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = undefined;
+    }
+  }
+
+  /**
+   * Notify queue listeners
+   */
+  private notify(event: QueueEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in queue listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Check whether queue changes should be written to storage
+   */
+  private isPersistent(): boolean {
+    return !!(this.config.persistToStorage && this.storage);
+  }
+
+  /**
+   * Write queue changes, record by record when storage supports it
+   */
+  private async persistChanges(changes: {
+    put?: QueuedRequest[];
+    remove?: string[];
+  }): Promise<void> {
+    if (!this.isPersistent()) return;
+    if (!this.records) {
+      await this.saveToStorage();
+      return;
+    }
+
+    try {
+      await Promise.all([
+        ...(changes.remove || []).map((id) =>
+          this.records!.deleteRecord(this.storageKey, id)
+        ),
+        ...(changes.put || []).map((req) =>
+          this.records!.putRecord(this.storageKey, this.toStoredRequest(req))
+        ),
+      ]);
+    } catch (error) {
+      console.warn('Failed to save queue to storage:', error);
+    }
+  }
+
   /**
    * Save queue to storage
    */
@@ -158,12 +831,7 @@ export class RequestQueue {
     if (!this.storage) return;
 
     try {
-      // Don't persist abort controllers
-      const serializable = this.queue.map((req) => {
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const { abortController, ...rest } = req;
-        return rest;
-      });
+      const serializable = this.queue.map((req) => this.toStoredRequest(req));
       await this.storage.setItem(this.storageKey, JSON.stringify(serializable));
     } catch (error) {
       console.warn('Failed to save queue to storage:', error);
@@ -171,9 +839,28 @@ export class RequestQueue {
   }
 
   /**
-   * Generate unique ID
+   * Convert request to its persisted form
    */
-  private generateId(): string {
-    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private toStoredRequest(request: QueuedRequest): StoredRequest {
+    // Don't persist abort controllers or session-only flags
+    // Bodies are stored in their tagged, encoded form
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { abortController, restored, body, ...rest } = request;
+    const persisted = this.persisted.get(request.id);
+    return {
+      ...rest,
+      retryConfig: toStoredRetryConfig(rest.retryConfig),
+      encodedBody: persisted?.encodedBody,
+      sequence: persisted?.sequence,
+    };
+  }
+
+  /**
+   * Drop persisted state of a request leaving the queue
+   */
+  private forget(request?: QueuedRequest): void {
+    if (request) {
+      this.persisted.delete(request.id);
+    }
   }
 }
@@ -0,0 +1,345 @@
+import type {
+  BodyCodec,
+  CacheConfig,
+  CacheInfo,
+  CachedResponse,
+  StorageAdapter,
+} from '../types';
+import { BodyCodecRegistry } from '../utils/bodyCodec';
+import { getHeader } from '../utils/headers';
+
+/**
+ * Header marking responses served from the cache, 'hit' or 'stale'
+ */
+const CACHE_HEADER = 'x-network-smart-handler-cache';
+const STORED_AT_HEADER = 'x-network-smart-handler-cache-stored-at';
+
+const DEFAULT_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a Cache-Control header into its directives
+ */
+function parseCacheControl(value?: string | null): Map<string, string> {
+  const directives = new Map<string, string>();
+  (value || '').split(',').forEach((part) => {
+    const [name, argument = ''] = part.trim().split('=');
+    if (name) {
+      directives.set(name.toLowerCase(), argument.replace(/^"|"$/g, ''));
+    }
+  });
+  return directives;
+}
+
+/**
+ * Check whether a content type is text, anything else is stored as binary
+ */
+function isTextual(contentType: string | null): boolean {
+  return /^text\/|[/+](json|xml)\b|javascript|x-www-form-urlencoded/i.test(
+    contentType || ''
+  );
+}
+
+/**
+ * Get the request header names a response varies on
+ */
+function varyNames(response: Response): string[] {
+  return (response.headers.get('vary') || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Tell whether a response returned by smartFetch came from the cache
+ */
+export function getCacheInfo(response: Response): CacheInfo {
+  const status = response.headers.get(CACHE_HEADER);
+  const storedAt = Number(response.headers.get(STORED_AT_HEADER));
+  return {
+    cached: status === 'hit' || status === 'stale',
+    stale: status === 'stale',
+    storedAt: status && storedAt ? storedAt : undefined,
+  };
+}
+
+/**
+ * Response Cache
+ * Keeps GET responses so screens can show the last known data while the
+ * network is slow or gone. Honors Cache-Control and keeps ETag and
+ * Last-Modified for conditional revalidation. Text bodies are stored as they
+ * are, binary ones through the body codecs.
+ */
+export class ResponseCache {
+  private entries: Map<string, CachedResponse> = new Map();
+  private config: CacheConfig;
+  private storage?: StorageAdapter;
+  private storageKey: string;
+  private loaded: Promise<void>;
+  private codecs: BodyCodecRegistry;
+
+  constructor(
+    config: CacheConfig,
+    storage?: StorageAdapter,
+    bodyCodecs?: BodyCodec[]
+  ) {
+    this.config = config;
+    this.codecs = new BodyCodecRegistry(bodyCodecs);
+    this.storage = config.persist === false ? undefined : storage;
+    this.storageKey = config.storageKey || 'network-smart-handler-cache';
+    this.loaded = this.storage ? this.loadFromStorage() : Promise.resolve();
+  }
+
+  /**
+   * Resolves once entries of a previous session are restored
+   */
+  whenLoaded(): Promise<void> {
+    return this.loaded;
+  }
+
+  /**
+   * Get entry by key, unless it is older than maxAge
+   * With request headers, an entry whose Vary headers were sent with other
+   * values does not match.
+   */
+  get(
+    key: string,
+    now: number = Date.now(),
+    requestHeaders?: Record<string, string>
+  ): CachedResponse | undefined {
+    const entry = this.entries.get(key);
+    if (entry && this.isExpired(entry, now)) {
+      this.entries.delete(key);
+      this.saveToStorage();
+      return undefined;
+    }
+    if (
+      entry?.vary &&
+      requestHeaders &&
+      Object.entries(entry.vary).some(
+        ([name, value]) => (getHeader(requestHeaders, name) ?? null) !== value
+      )
+    ) {
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Check whether an entry can be served without revalidation
+   */
+  isFresh(entry: CachedResponse, now: number = Date.now()): boolean {
+    return now < entry.freshUntil;
+  }
+
+  /**
+   * Store a response, unless it is not cacheable
+   * Only 200 responses are kept, and none marked no-store or Vary: *.
+   */
+  async put(
+    key: string,
+    url: string,
+    response: Response,
+    requestHeaders: Record<string, string> = {}
+  ): Promise<CachedResponse | undefined> {
+    await this.loaded;
+
+    const cacheControl = parseCacheControl(
+      response.headers.get('cache-control')
+    );
+    const vary = varyNames(response);
+    if (
+      response.status !== 200 ||
+      cacheControl.has('no-store') ||
+      vary.includes('*')
+    ) {
+      return undefined;
+    }
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+
+    const textual = isTextual(response.headers.get('content-type'));
+    const body = textual
+      ? await response.text()
+      : await this.codecs.encode(new Uint8Array(await response.arrayBuffer()));
+
+    const now = Date.now();
+    const entry: CachedResponse = {
+      key,
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: typeof body === 'string' ? body : undefined,
+      encodedBody: typeof body === 'string' ? undefined : body,
+      vary: vary.length
+        ? Object.fromEntries(
+            vary.map((name) => [name, getHeader(requestHeaders, name) ?? null])
+          )
+        : undefined,
+      storedAt: now,
+      freshUntil: now + this.freshness(cacheControl),
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+    };
+
+    // Re-inserting keeps the map ordered from oldest to newest
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    const maxEntries = this.config.maxEntries ?? 100;
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) break;
+      this.entries.delete(oldest);
+    }
+
+    await this.saveToStorage();
+    return entry;
+  }
+
+  /**
+   * Renew an entry after the server answered 304 Not Modified
+   */
+  async revalidate(
+    key: string,
+    response: Response
+  ): Promise<CachedResponse | undefined> {
+    await this.loaded;
+
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    const cacheControl = response.headers.get('cache-control');
+    const now = Date.now();
+    const renewed: CachedResponse = {
+      ...entry,
+      headers: cacheControl
+        ? { ...entry.headers, 'cache-control': cacheControl }
+        : entry.headers,
+      storedAt: now,
+      freshUntil:
+        now +
+        this.freshness(
+          parseCacheControl(cacheControl ?? entry.headers['cache-control'])
+        ),
+      etag: response.headers.get('etag') ?? entry.etag,
+      lastModified: response.headers.get('last-modified') ?? entry.lastModified,
+    };
+
+    this.entries.delete(key);
+    this.entries.set(key, renewed);
+    await this.saveToStorage();
+    return renewed;
+  }
+
+  /**
+   * Build the response served for an entry, marked as cached
+   */
+  toResponse(entry: CachedResponse, stale: boolean): Response {
+    const body = entry.encodedBody
+      ? this.codecs.decode(entry.encodedBody)
+      : entry.body;
+    return new Response(body, {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: {
+        ...entry.headers,
+        [CACHE_HEADER]: stale ? 'stale' : 'hit',
+        [STORED_AT_HEADER]: String(entry.storedAt),
+      },
+    });
+  }
+
+  /**
+   * Get number of entries
+   */
+  size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Remove an entry by key, or every entry of a URL
+   */
+  async delete(keyOrUrl: string): Promise<boolean> {
+    await this.loaded;
+    const keys = [...this.entries.values()]
+      .filter((entry) => entry.key === keyOrUrl || entry.url === keyOrUrl)
+      .map((entry) => entry.key);
+    if (keys.length === 0) {
+      return false;
+    }
+    keys.forEach((key) => this.entries.delete(key));
+    await this.saveToStorage();
+    return true;
+  }
+
+  /**
+   * Remove all entries
+   */
+  async clear(): Promise<void> {
+    await this.loaded;
+    this.entries.clear();
+    if (this.storage) {
+      await this.storage.removeItem(this.storageKey);
+    }
+  }
+
+  /**
+   * Time in ms a response stays fresh, from its Cache-Control directives
+   */
+  private freshness(cacheControl: Map<string, string>): number {
+    if (cacheControl.has('no-cache')) {
+      return 0;
+    }
+    const maxAge = Number(cacheControl.get('max-age'));
+    return Number.isFinite(maxAge) && maxAge >= 0
+      ? maxAge * 1000
+      : this.config.ttl ?? 0;
+  }
+
+  /**
+   * Check whether an entry is past maxAge
+   */
+  private isExpired(entry: CachedResponse, now: number): boolean {
+    return now - entry.storedAt > (this.config.maxAge ?? DEFAULT_MAX_AGE);
+  }
+
+  /**
+   * Load entries from storage
+   */
+  private async loadFromStorage(): Promise<void> {
+    if (!this.storage) return;
+
+    try {
+      const data = await this.storage.getItem(this.storageKey);
+      const stored: CachedResponse[] = data ? JSON.parse(data) : [];
+      const now = Date.now();
+
+      stored
+        .filter((entry) => !this.isExpired(entry, now))
+        .forEach((entry) => this.entries.set(entry.key, entry));
+    } catch (error) {
+      console.warn('Failed to load response cache from storage:', error);
+    }
+  }
+
+  /**
+   * Save entries to storage
+   */
+  private async saveToStorage(): Promise<void> {
+    if (!this.storage) return;
+
+    try {
+      await this.storage.setItem(
+        this.storageKey,
+        JSON.stringify([...this.entries.values()])
+      );
+    } catch (error) {
+      console.warn('Failed to save response cache to storage:', error);
+    }
+  }
+}
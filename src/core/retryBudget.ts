@@ -0,0 +1,53 @@
+import type { RetryBudgetConfig } from '../types';
+
+const defaultRetryBudgetConfig: Required<RetryBudgetConfig> = {
+  ratio: 0.2,
+  window: 10000,
+  minRetries: 10,
+};
+
+/**
+ * Retry Budget
+ * Caps retries across all requests to a share of the recent traffic, so an
+ * outage doesn't multiply the load by maxAttempts
+ */
+export class RetryBudget {
+  private config: Required<RetryBudgetConfig>;
+  private requests: number[] = [];
+  private retries: number[] = [];
+
+  constructor(config: RetryBudgetConfig = {}) {
+    this.config = { ...defaultRetryBudgetConfig, ...config };
+  }
+
+  /**
+   * Count a first attempt
+   */
+  recordRequest(now: number = Date.now()): void {
+    this.prune(now);
+    this.requests.push(now);
+  }
+
+  /**
+   * Take a retry from the budget
+   * Returns false when the budget is spent and the request should give up
+   */
+  tryRetry(now: number = Date.now()): boolean {
+    this.prune(now);
+    const allowed = Math.max(
+      this.config.minRetries,
+      Math.floor(this.requests.length * this.config.ratio)
+    );
+    if (this.retries.length >= allowed) {
+      return false;
+    }
+    this.retries.push(now);
+    return true;
+  }
+
+  private prune(now: number): void {
+    const since = now - this.config.window;
+    this.requests = this.requests.filter((time) => time > since);
+    this.retries = this.retries.filter((time) => time > since);
+  }
+}
@@ -1,13 +1,84 @@
-import type { RetryConfig } from '../types';
+import type { RetryConfig, RetryContext, RetryInfo } from '../types';
+import { getHeader, toHeaderRecord } from '../utils/headers';
+import {
+  CircuitOpenError,
+  NetworkUnavailableError,
+  RequestAbortedError,
+  RetryExhaustedError,
+  RetryRequestError,
+  TimeoutError,
+} from './errors';
+
+/**
+ * Epoch seconds beyond which a RateLimit-Reset value is a timestamp rather
+ * than a number of seconds (some APIs send X-RateLimit-Reset that way)
+ */
+const EPOCH_SECONDS_THRESHOLD = 1e9;
+
+/**
+ * Get the nth Fibonacci number, starting 1, 1, 2, 3, 5
+ */
+function fibonacci(n: number): number {
+  let previous = 0;
+  let current = 1;
+  for (let i = 1; i < n; i++) {
+    [previous, current] = [current, previous + current];
+  }
+  return current;
+}
 
 /**
  * Calculate delay for retry based on strategy
+ * Only a custom strategy function can return 'stop', to give up retrying
  */
 export function calculateRetryDelay(
   attempt: number,
-  config: RetryConfig
-): number {
+  config: RetryConfig,
+  context: RetryContext = {}
+): number | 'stop' {
   const { strategy, baseDelay, maxDelay } = config;
+  const random = config.random || Math.random;
+  let delay = baseDelay;
+
+  if (typeof strategy === 'function') {
+    const custom = strategy(
+      attempt,
+      context.lastDelay,
+      context.error,
+      context.response ?? (context.error as any)?.response
+    );
+    if (custom === 'stop') {
+      return 'stop';
+    }
+    delay = custom;
+  } else {
+    delay = calculateStrategyDelay(
+      strategy,
+      attempt,
+      baseDelay,
+      random,
+      context
+    );
+  }
+
+  // Apply max delay cap
+  if (maxDelay !== undefined) {
+    delay = Math.min(delay, maxDelay);
+  }
+
+  return Math.max(0, Math.floor(delay));
+}
+
+/**
+ * Delay of a built-in strategy, before the maxDelay cap
+ */
+function calculateStrategyDelay(
+  strategy: RetryConfig['strategy'],
+  attempt: number,
+  baseDelay: number,
+  random: () => number,
+  context: RetryContext
+): number {
   let delay = baseDelay;
 
   switch (strategy) {
@@ -22,32 +93,123 @@ export function calculateRetryDelay(
     case 'exponential-jitter':
       delay = baseDelay * Math.pow(2, attempt - 1);
       // Full jitter: random between 0 and calculated delay
-      delay = Math.random() * delay;
+      delay = random() * delay;
       break;
 
     case 'exponential-partial-jitter':
       delay = baseDelay * Math.pow(2, attempt - 1);
       // Partial jitter: random between delay/2 and delay
       const minDelay = delay / 2;
-      delay = minDelay + Math.random() * (delay - minDelay);
+      delay = minDelay + random() * (delay - minDelay);
+      break;
+
+    case 'decorrelated-jitter':
+      // AWS style: random between baseDelay and 3x the previous delay
+      const upper = Math.max(baseDelay, (context.lastDelay ?? baseDelay) * 3);
+      delay = baseDelay + random() * (upper - baseDelay);
+      break;
+
+    case 'linear':
+      delay = baseDelay * attempt;
+      break;
+
+    case 'fibonacci':
+      delay = baseDelay * fibonacci(attempt);
       break;
 
     default:
       delay = baseDelay;
   }
 
-  // Apply max delay cap
-  if (maxDelay !== undefined) {
-    delay = Math.min(delay, maxDelay);
+  return delay;
+}
+
+/**
+ * Read the delay a server asked for through Retry-After or RateLimit-Reset
+ * Retry-After may be seconds or an HTTP date. Returns undefined when the
+ * response carries neither header
+ */
+export function getRetryAfterDelay(
+  response: { headers?: any } | undefined,
+  now: number = Date.now()
+): number | undefined {
+  const headers = response?.headers;
+  if (!headers) {
+    return undefined;
   }
+  const read = (name: string): string | undefined =>
+    typeof headers.get === 'function'
+      ? headers.get(name) ?? undefined
+      : getHeader(toHeaderRecord(headers), name);
 
-  return Math.max(0, Math.floor(delay));
+  const retryAfter = read('Retry-After')?.trim();
+  if (retryAfter) {
+    if (/^\d+(\.\d+)?$/.test(retryAfter)) {
+      return Number(retryAfter) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const reset = Number(
+    (read('RateLimit-Reset') ?? read('X-RateLimit-Reset'))?.trim()
+  );
+  if (Number.isFinite(reset) && reset >= 0) {
+    return reset > EPOCH_SECONDS_THRESHOLD
+      ? Math.max(0, reset * 1000 - now)
+      : reset * 1000;
+  }
+
+  return undefined;
+}
+
+/**
+ * Check if error is a platform network failure, e.g. `TypeError: Failed to
+ * fetch` in browsers or `Network request failed` in React Native
+ */
+export function isNetworkFailure(error: any): boolean {
+  if (error instanceof TypeError) {
+    const message = error.message || '';
+    if (
+      message.includes('fetch') ||
+      message.includes('Network request failed') ||
+      message.includes('network')
+    ) {
+      return true;
+    }
+  }
+  if (error?.name === 'NetworkError') {
+    return true;
+  }
+  if (error?.code === 'ECONNREFUSED' || error?.code === 'ETIMEDOUT') {
+    return true;
+  }
+  return (
+    error?.message?.includes('Network request failed') ||
+    error?.message?.includes('Failed to fetch') ||
+    false
+  );
 }
 
 /**
  * Check if error is retryable
  */
 export function isRetryableError(error: any, config: RetryConfig): boolean {
+  // A timed out attempt may succeed on the next one, a passed deadline won't
+  if (error instanceof TimeoutError) {
+    return error.kind === 'attempt';
+  }
+
+  // Aborted by the caller, or never sent because the circuit is open
+  if (
+    error instanceof RequestAbortedError ||
+    error instanceof CircuitOpenError
+  ) {
+    return false;
+  }
+
   // Check retryable error types
   if (config.retryableErrors && config.retryableErrors.length > 0) {
     const errorType = error?.constructor?.name || error?.name || String(error);
@@ -62,33 +224,19 @@ export function isRetryableError(error: any, config: RetryConfig): boolean {
     }
   }
 
-  // Check network errors (common retryable errors)
-  if (error instanceof TypeError) {
-    const message = error.message || '';
-    if (
-      message.includes('fetch') ||
-      message.includes('Network request failed') ||
-      message.includes('network') ||
-      message.includes('Failed to fetch')
-    ) {
-      return true;
-    }
-  }
-  if (error?.name === 'NetworkError' || error?.name === 'AbortError') {
-    return true;
-  }
-  if (error?.code === 'ECONNREFUSED' || error?.code === 'ETIMEDOUT') {
-    return true;
-  }
-  // Check for React Native specific network error messages
   if (
-    error?.message?.includes('Network request failed') ||
-    error?.message?.includes('Failed to fetch')
+    error instanceof NetworkUnavailableError ||
+    error instanceof RetryRequestError
   ) {
     return true;
   }
 
-  // Check HTTP status codes
+  // Errors thrown by functions that don't use the typed errors
+  if (isNetworkFailure(error) || error?.name === 'AbortError') {
+    return true;
+  }
+
+  // Check HTTP status codes (HttpError, axios errors)
   if (error?.response?.status) {
     const status = error.response.status;
     if (config.retryableStatuses && config.retryableStatuses.includes(status)) {
@@ -109,21 +257,27 @@ export function isRetryableError(error: any, config: RetryConfig): boolean {
 export async function executeWithRetry<T>(
   fn: (attempt: number) => Promise<T>,
   config: RetryConfig,
-  abortSignal?: AbortSignal
+  abortSignal?: AbortSignal,
+  options: {
+    onRetry?: (info: RetryInfo) => void;
+    canRetry?: (error: unknown, attempt: number) => boolean;
+  } = {}
 ): Promise<T> {
-  let lastError: any;
+  const errors: unknown[] = [];
+  let lastDelay: number | undefined;
   const maxAttempts = config.maxAttempts;
+  const clock = config.clock;
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     // Check if aborted
     if (abortSignal?.aborted) {
-      throw new Error('Request aborted');
+      throw new RequestAbortedError(abortSignal.reason);
     }
 
     try {
       return await fn(attempt);
     } catch (error) {
-      lastError = error;
+      errors.push(error);
 
       // Check if error is retryable
       if (!isRetryableError(error, config)) {
@@ -132,18 +286,50 @@ export async function executeWithRetry<T>(
 
       // Don't retry on last attempt
       if (attempt >= maxAttempts) {
+        throw errors.length > 1 ? new RetryExhaustedError(errors) : error;
+      }
+
+      // Calculate delay, a custom strategy may give up here
+      const strategyDelay = calculateRetryDelay(attempt, config, {
+        lastDelay,
+        error,
+      });
+      if (strategyDelay === 'stop') {
         throw error;
       }
 
-      // Calculate delay
-      const delay = calculateRetryDelay(attempt, config);
+      // Shared limits (e.g. a retry budget) may veto the retry
+      if (options.canRetry && !options.canRetry(error, attempt)) {
+        throw error;
+      }
+
+      // The server's Retry-After wins up to maxDelay
+      const retryAfter = getRetryAfterDelay(
+        (error as any)?.response,
+        clock ? clock.now() : Date.now()
+      );
+      let delay =
+        retryAfter !== undefined ? Math.ceil(retryAfter) : strategyDelay;
+      if (config.maxDelay !== undefined) {
+        delay = Math.min(delay, config.maxDelay);
+      }
+      lastDelay = delay;
+
+      options.onRetry?.({
+        attempt: attempt + 1,
+        delay,
+        retryAfter: retryAfter !== undefined,
+        error,
+      });
 
       // Wait with abort support
-      await sleep(delay, abortSignal);
+      await (clock
+        ? clock.sleep(delay, abortSignal)
+        : sleep(delay, abortSignal));
     }
   }
 
-  throw lastError;
+  throw new RetryExhaustedError(errors);
 }
 
 /**
@@ -152,7 +338,7 @@ export async function executeWithRetry<T>(
 function sleep(ms: number, abortSignal?: AbortSignal): Promise<void> {
   return new Promise((resolve, reject) => {
     if (abortSignal?.aborted) {
-      reject(new Error('Aborted'));
+      reject(new RequestAbortedError(abortSignal.reason));
       return;
     }
 
@@ -163,7 +349,7 @@ function sleep(ms: number, abortSignal?: AbortSignal): Promise<void> {
     if (abortSignal) {
       abortSignal.addEventListener('abort', () => {
         clearTimeout(timeoutId);
-        reject(new Error('Aborted'));
+        reject(new RequestAbortedError(abortSignal.reason));
       });
     }
   });
@@ -5,6 +5,7 @@ import type {
   QueuedRequest,
   RetryConfig,
   StorageAdapter,
+  SmartFetchOptions,
 } from '../types';
 import { NetworkHandler } from './networkHandler';
 
@@ -102,13 +103,14 @@ export function subscribeToNetworkState(
 export async function smartFetch(
   url: string,
   options?: RequestInit,
-  retryConfig?: Partial<RetryConfig>
+  retryConfig?: Partial<RetryConfig>,
+  smartOptions?: SmartFetchOptions
 ): Promise<Response> {
   if (!handlerInstance) {
     handlerInstance = new NetworkHandler(defaultConfig);
   }
 
-  return handlerInstance.smartFetch(url, options, retryConfig);
+  return handlerInstance.smartFetch(url, options, retryConfig, smartOptions);
 }
 
 /**
@@ -0,0 +1,259 @@
+import type { NetworkQuality, NetworkStatus, StabilityConfig } from '../types';
+
+/**
+ * Settings that pass every sample straight through
+ */
+const UNSTABILIZED: Required<StabilityConfig> = {
+  hysteresis: 0,
+  confirmSamples: 1,
+  sampleWindow: 1,
+  minDwell: 0,
+  offlineDelay: 0,
+  onlineDelay: 0,
+};
+
+/**
+ * Resolve stability settings, false turns all of them off
+ */
+export function resolveStability(
+  config?: StabilityConfig | false
+): Required<StabilityConfig> {
+  if (config === false) {
+    return UNSTABILIZED;
+  }
+  return {
+    hysteresis: config?.hysteresis ?? 0.1,
+    confirmSamples: config?.confirmSamples ?? 2,
+    sampleWindow: Math.max(
+      config?.sampleWindow ?? 3,
+      config?.confirmSamples ?? 2
+    ),
+    minDwell: config?.minDwell ?? 5000,
+    offlineDelay: config?.offlineDelay ?? 1000,
+    onlineDelay: config?.onlineDelay ?? 0,
+  };
+}
+
+/**
+ * Pick quality for a latency, with thresholds shifted by the hysteresis band
+ * away from the current quality, so a latency near a threshold keeps it
+ */
+export function qualityForLatency(
+  latency: number,
+  thresholds: { weak: number; medium: number },
+  current?: NetworkQuality,
+  hysteresis = 0
+): NetworkQuality {
+  const shift = (threshold: number, currentlyAbove: boolean) =>
+    threshold * (currentlyAbove ? 1 - hysteresis : 1 + hysteresis);
+  const weakAt = shift(thresholds.weak, current === 'weak');
+  const mediumAt = shift(
+    thresholds.medium,
+    current !== undefined && current !== 'strong'
+  );
+
+  if (latency >= weakAt || !isFinite(latency)) {
+    return 'weak';
+  }
+  if (latency >= mediumAt) {
+    return 'medium';
+  }
+  return 'strong';
+}
+
+/**
+ * Status Stabilizer
+ * Sits between a detector's raw samples and its listeners. Connectivity
+ * changes are debounced, a new quality needs N of the latest M samples and
+ * the previous one must have lasted minDwell. Listeners only hear about
+ * changes of connectivity, quality, type or captive portal.
+ */
+export class StatusStabilizer {
+  private config: Required<StabilityConfig>;
+  private stable: NetworkStatus;
+  private onChange: (status: NetworkStatus) => void;
+  private samples: NetworkQuality[] = [];
+  private changedAt = 0;
+  private initialized = false;
+  private pendingStatus?: NetworkStatus;
+  private connectivityTimer?: ReturnType<typeof setTimeout>;
+  private dwellTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    initial: NetworkStatus,
+    config: StabilityConfig | false | undefined,
+    onChange: (status: NetworkStatus) => void
+  ) {
+    this.stable = { ...initial };
+    this.config = resolveStability(config);
+    this.onChange = onChange;
+  }
+
+  /**
+   * Get the stable status
+   */
+  getStatus(): NetworkStatus {
+    return { ...this.stable };
+  }
+
+  /**
+   * Get the resolved settings
+   */
+  getConfig(): Required<StabilityConfig> {
+    return this.config;
+  }
+
+  /**
+   * Feed a raw status sample
+   * Immediate samples skip confirmation and dwell, e.g. the first real
+   * measurement replacing a placeholder.
+   */
+  update(raw: NetworkStatus, immediate = false): void {
+    if (!this.initialized) {
+      this.initialized = true;
+      immediate = true;
+    }
+
+    if (raw.isOnline !== this.stable.isOnline) {
+      this.changeConnectivity(raw, immediate);
+      return;
+    }
+
+    // Back where it was before the drop or return settled, nothing happened
+    this.cancelConnectivityChange();
+
+    const previous = this.stable;
+    this.stable = {
+      ...raw,
+      quality: previous.quality,
+    };
+
+    if (raw.isOnline) {
+      this.samples.push(raw.quality);
+      if (this.samples.length > this.config.sampleWindow) {
+        this.samples.shift();
+      }
+      this.settleQuality(immediate);
+    } else {
+      // Quality means nothing while offline
+      this.stable.quality = raw.quality;
+    }
+
+    if (this.stable.quality !== previous.quality) {
+      this.changedAt = Date.now();
+    }
+    if (
+      this.stable.quality !== previous.quality ||
+      this.stable.type !== previous.type ||
+      this.stable.captivePortal !== previous.captivePortal
+    ) {
+      this.emit();
+    }
+  }
+
+  /**
+   * Stop pending timers
+   */
+  destroy(): void {
+    this.cancelConnectivityChange();
+    if (this.dwellTimer) {
+      clearTimeout(this.dwellTimer);
+      this.dwellTimer = undefined;
+    }
+  }
+
+  /**
+   * Go online or offline once the change lasted its delay
+   */
+  private changeConnectivity(raw: NetworkStatus, immediate: boolean): void {
+    const delay = raw.isOnline
+      ? this.config.onlineDelay
+      : this.config.offlineDelay;
+
+    if (immediate || delay <= 0) {
+      this.cancelConnectivityChange();
+      this.applyConnectivity(raw);
+      return;
+    }
+
+    // Keep the original timer, later samples only refresh the status
+    this.pendingStatus = raw;
+    if (!this.connectivityTimer) {
+      this.connectivityTimer = setTimeout(() => {
+        this.connectivityTimer = undefined;
+        const pending = this.pendingStatus;
+        this.pendingStatus = undefined;
+        if (pending) {
+          this.applyConnectivity(pending);
+        }
+      }, delay);
+    }
+  }
+
+  /**
+   * Take a connectivity change as it is, with its quality and type
+   */
+  private applyConnectivity(raw: NetworkStatus): void {
+    this.stable = { ...raw };
+    this.samples = raw.isOnline ? [raw.quality] : [];
+    this.changedAt = Date.now();
+    this.emit();
+  }
+
+  /**
+   * Drop a connectivity change that did not last
+   */
+  private cancelConnectivityChange(): void {
+    if (this.connectivityTimer) {
+      clearTimeout(this.connectivityTimer);
+      this.connectivityTimer = undefined;
+    }
+    this.pendingStatus = undefined;
+  }
+
+  /**
+   * Move to the latest sampled quality once enough samples confirm it and
+   * the current one lasted minDwell
+   */
+  private settleQuality(immediate: boolean): void {
+    const candidate = this.samples[this.samples.length - 1];
+    if (candidate === undefined || candidate === this.stable.quality) {
+      return;
+    }
+
+    const confirmed =
+      immediate ||
+      this.samples.filter((quality) => quality === candidate).length >=
+        this.config.confirmSamples;
+    if (!confirmed) {
+      return;
+    }
+
+    const dwellEnd = this.changedAt + this.config.minDwell;
+    if (immediate || Date.now() >= dwellEnd) {
+      this.stable.quality = candidate;
+      return;
+    }
+
+    // Confirmed but too soon, check again once the dwell time is over
+    if (!this.dwellTimer) {
+      this.dwellTimer = setTimeout(() => {
+        this.dwellTimer = undefined;
+        if (!this.stable.isOnline) return;
+        const previous = this.stable.quality;
+        this.settleQuality(false);
+        if (this.stable.quality !== previous) {
+          this.changedAt = Date.now();
+          this.emit();
+        }
+      }, dwellEnd - Date.now());
+    }
+  }
+
+  /**
+   * Report the stable status
+   */
+  private emit(): void {
+    this.onChange({ ...this.stable });
+  }
+}
@@ -0,0 +1,72 @@
+import type { PassiveEstimationConfig, TrafficSample } from '../types';
+import { percentile } from '../utils/stats';
+
+/**
+ * Traffic Estimator
+ * Keeps a sliding window of real request timings and derives latency and
+ * throughput from it. Failed attempts count as infinitely slow, so a
+ * connection dropping most requests reads as weak.
+ */
+export class TrafficEstimator {
+  private samples: Array<TrafficSample & { timestamp: number }> = [];
+  private config: PassiveEstimationConfig;
+
+  constructor(config: PassiveEstimationConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Add the timing of a request attempt
+   */
+  record(sample: TrafficSample): void {
+    const timestamp = sample.timestamp ?? Date.now();
+    this.samples.push({ ...sample, timestamp });
+    this.prune(timestamp);
+  }
+
+  /**
+   * Estimate latency and throughput from the window
+   * Undefined while traffic is too sparse to tell, probes decide then.
+   */
+  estimate(
+    now: number = Date.now()
+  ): { latency: number; throughput?: number } | undefined {
+    this.prune(now);
+    if (this.samples.length < (this.config.minSamples ?? 3)) {
+      return undefined;
+    }
+
+    const latency = percentile(
+      this.samples.map((sample) =>
+        sample.failed ? Infinity : sample.duration
+      ),
+      this.config.percentile ?? 0.5
+    )!;
+
+    let bytes = 0;
+    let seconds = 0;
+    this.samples.forEach((sample) => {
+      if (!sample.failed && sample.bytes && sample.duration > 0) {
+        bytes += sample.bytes;
+        seconds += sample.duration / 1000;
+      }
+    });
+
+    return { latency, throughput: seconds > 0 ? bytes / seconds : undefined };
+  }
+
+  /**
+   * Drop all samples, e.g. after the network changed
+   */
+  clear(): void {
+    this.samples = [];
+  }
+
+  /**
+   * Drop samples that left the window
+   */
+  private prune(now: number): void {
+    const since = now - (this.config.window ?? 60000);
+    this.samples = this.samples.filter((sample) => sample.timestamp >= since);
+  }
+}
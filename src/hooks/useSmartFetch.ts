@@ -1,6 +1,6 @@
 import { useCallback } from 'react';
 import { useNetworkStatus } from './useNetworkStatus';
-import type { RetryConfig } from '../types';
+import type { RetryConfig, SmartFetchOptions } from '../types';
 
 /**
  * Hook for smart fetch with automatic retry and queue
@@ -12,9 +12,10 @@ export function useSmartFetch() {
     async (
       url: string,
       options?: RequestInit,
-      retryConfig?: Partial<RetryConfig>
+      retryConfig?: Partial<RetryConfig>,
+      smartOptions?: SmartFetchOptions
     ) => {
-      return smartFetch(url, options, retryConfig);
+      return smartFetch(url, options, retryConfig, smartOptions);
     },
     [smartFetch]
   );
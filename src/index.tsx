@@ -8,13 +8,44 @@ export {
   WebNetworkDetector,
   RNNetworkDetector,
 } from './core/networkDetector';
+export {
+  endpointProbe,
+  medianProbe,
+  connectionProbe,
+  passiveProbe,
+  combineProbes,
+} from './core/probeStrategies';
+export { TrafficEstimator } from './core/trafficEstimator';
+export { StatusStabilizer } from './core/statusStabilizer';
+export { ReachabilityChecker, checkReachability } from './core/reachability';
 export { RequestQueue } from './core/requestQueue';
+export { DeadLetterQueue } from './core/deadLetterQueue';
+export { CircuitBreaker } from './core/circuitBreaker';
+export { RetryBudget } from './core/retryBudget';
+export { ResponseCache, getCacheInfo } from './core/responseCache';
 export {
   executeWithRetry,
   calculateRetryDelay,
+  getRetryAfterDelay,
   isRetryableError,
+  isNetworkFailure,
   defaultRetryConfig,
 } from './core/retryLogic';
+export {
+  NetworkHandlerError,
+  BodySerializationError,
+  RequestExpiredError,
+  DependencyFailedError,
+  RequestCancelledError,
+  HttpError,
+  CircuitOpenError,
+  TimeoutError,
+  NetworkUnavailableError,
+  QueueFullError,
+  RequestAbortedError,
+  RetryExhaustedError,
+  RetryRequestError,
+} from './core/errors';
 
 // Simple API - Easy to use, no Provider needed
 export {
@@ -53,3 +84,9 @@ export {
 
 // Storage
 export { WebStorageAdapter, RNStorageAdapter } from './utils/storage';
+export {
+  IndexedDBStorageAdapter,
+  type IndexedDBStorageOptions,
+} from './utils/indexedDBStorage';
+export { BodyCodecRegistry, defaultBodyCodecs } from './utils/bodyCodec';
+export { combineSignals, abortAfter } from './utils/abort';
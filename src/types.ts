@@ -17,6 +17,7 @@ export interface NetworkStatus {
   type: NetworkType;
   latency?: number; // in milliseconds
   throughput?: number; // in bytes per second
+  captivePortal?: boolean; // Connected, but a captive portal intercepts requests
   lastUpdated: number; // timestamp
 }
 
@@ -27,7 +28,42 @@ export type RetryStrategy =
   | 'fixed'
   | 'exponential'
   | 'exponential-jitter'
-  | 'exponential-partial-jitter';
+  | 'exponential-partial-jitter'
+  | 'decorrelated-jitter'
+  | 'linear'
+  | 'fibonacci'
+  | RetryStrategyFunction;
+
+/**
+ * Custom Retry Strategy
+ * Returns the delay before the next attempt in milliseconds, or 'stop' to
+ * give up retrying
+ */
+export type RetryStrategyFunction = (
+  attempt: number,
+  lastDelay: number | undefined,
+  error: unknown,
+  response: Response | undefined
+) => number | 'stop';
+
+/**
+ * Retry Context
+ * What a strategy may know about the attempt that just failed
+ */
+export interface RetryContext {
+  lastDelay?: number; // Delay before the failed attempt, if it was a retry
+  error?: unknown;
+  response?: Response;
+}
+
+/**
+ * Retry Clock
+ * Time source for retries, replaceable in tests
+ */
+export interface RetryClock {
+  now(): number;
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
 
 /**
  * Retry Configuration
@@ -40,6 +76,44 @@ export interface RetryConfig {
   jitter?: boolean;
   retryableStatuses?: number[]; // HTTP status codes to retry
   retryableErrors?: string[]; // Error types to retry
+  random?: () => number; // Random source for jitter, default Math.random
+  clock?: RetryClock; // Default: Date.now and setTimeout
+}
+
+/**
+ * Retry Info
+ * Passed to executeWithRetry's onRetry before waiting for the next attempt
+ */
+export interface RetryInfo {
+  attempt: number; // Number of the upcoming attempt
+  delay: number; // Milliseconds until it starts
+  retryAfter: boolean; // Delay was set by Retry-After or RateLimit-Reset
+  error: unknown; // Error of the failed attempt
+}
+
+/**
+ * Circuit State
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit Breaker Configuration
+ */
+export interface CircuitBreakerConfig {
+  failureThreshold?: number; // Failure rate (0-1) that opens the circuit, default 0.5
+  minimumRequests?: number; // Requests in the window before it can open, default 10
+  window?: number; // Sliding window for the failure rate, default 60000ms
+  cooldown?: number; // Time the circuit stays open, default 30000ms
+  halfOpenRequests?: number; // Probe requests while half-open, default 1
+}
+
+/**
+ * Retry Budget Configuration
+ */
+export interface RetryBudgetConfig {
+  ratio?: number; // Retries allowed per request in the window, default 0.2
+  window?: number; // Default 10000ms
+  minRetries?: number; // Retries always allowed per window, default 10
 }
 
 /**
@@ -47,6 +121,12 @@ export interface RetryConfig {
  */
 export type QueuePolicy = 'drop-oldest' | 'drop-newest' | 'persist' | 'reject';
 
+/**
+ * Dedupe Strategy
+ * What to do when a request with an already queued dedupeKey is enqueued
+ */
+export type DedupeStrategy = 'keep-first' | 'replace' | 'merge';
+
 /**
  * Queue Configuration
  */
@@ -56,6 +136,36 @@ export interface QueueConfig {
   persistToStorage?: boolean;
   storageKey?: string;
   priority?: boolean; // Enable priority queue
+  bodyCodecs?: BodyCodec[]; // Custom body codecs, tried before the built-in ones
+  dedupe?: DedupeStrategy; // Default: 'keep-first'
+  mergeDuplicates?: (
+    existing: QueuedRequest,
+    incoming: QueuedRequest
+  ) => Partial<QueuedRequest>; // Used by the 'merge' strategy
+  idempotencyHeader?: string | false; // Default: 'Idempotency-Key'
+  ttl?: number; // Default time to live of queued requests, in milliseconds
+  pruneInterval?: number; // How often expired requests are pruned, default 60000ms
+  onDependencyFailure?: 'cancel' | 'park'; // Default: 'cancel'
+}
+
+/**
+ * Encoded Body
+ * Tagged, JSON-safe form of a request body as written to storage
+ */
+export interface EncodedBody {
+  codec: string; // Name of the codec that produced it
+  data: any;
+}
+
+/**
+ * Body Codec
+ * Converts one kind of request body to and from its storable form
+ */
+export interface BodyCodec {
+  name: string;
+  canEncode(body: unknown): boolean;
+  encode(body: any): any | Promise<any>;
+  decode(data: any): any;
 }
 
 /**
@@ -71,6 +181,315 @@ export interface QueuedRequest {
   timestamp: number;
   retryConfig?: Partial<RetryConfig>;
   abortController?: AbortController;
+  replayHandler?: string; // Name of the replay handler used after an app restart
+  restored?: boolean; // Set on requests rehydrated from storage
+  dedupeKey?: string; // Requests sharing a key collapse into one queue entry
+  expiresAt?: number; // Timestamp after which the request is dropped unsent
+  lane?: string; // Requests sharing a lane are sent one at a time, in order
+  dependsOn?: string[]; // IDs of queued requests that must succeed first
+  parked?: boolean; // Held back after a dependency failed, until retried
+  timeout?: number | false; // Per-attempt timeout override, false disables it
+  deadlineAt?: number; // Timestamp by which the request must have completed
+  deadline?: number; // The deadline in ms deadlineAt was set from, for errors
+}
+
+/**
+ * Stored Request
+ * Persisted form of a QueuedRequest
+ */
+export type StoredRequest = Omit<
+  QueuedRequest,
+  'abortController' | 'restored' | 'body'
+> & {
+  encodedBody?: EncodedBody;
+  sequence?: number; // Insertion order, used to rebuild the queue from records
+};
+
+/**
+ * Request Attempt
+ * One try of sending a queued request, kept for dead letters
+ */
+export interface RequestAttempt {
+  attempt: number;
+  timestamp: number;
+  status?: number; // HTTP status, if a response came back
+  error?: string; // Error message, if the attempt threw
+}
+
+/**
+ * Dead Letter
+ * Queued request that failed permanently, kept until the app retries or
+ * discards it
+ */
+export interface DeadLetter {
+  id: string;
+  request: QueuedRequest;
+  error: {
+    name: string;
+    message: string;
+    status?: number;
+  };
+  attempts: RequestAttempt[];
+  queuedAt: number; // When the request was first queued
+  failedAt: number; // When the last attempt failed
+}
+
+/**
+ * Stored Dead Letter
+ * Persisted and exported form of a DeadLetter
+ */
+export type StoredDeadLetter = Omit<DeadLetter, 'request'> & {
+  request: StoredRequest;
+};
+
+/**
+ * Dead Letter Configuration
+ */
+export interface DeadLetterConfig {
+  enabled?: boolean; // Default: true
+  maxSize?: number; // Oldest entries are dropped beyond it, default 100
+  persist?: boolean; // Default: queue.persistToStorage
+  storageKey?: string; // Default: 'network-smart-handler-dead-letters'
+}
+
+/**
+ * Cache Policy
+ * - cache-first: serve fresh entries without a request, revalidate stale ones
+ * - network-first: ask the network, fall back to the cache when it fails
+ * - stale-while-revalidate: serve any entry, revalidate stale ones in the background
+ * - offline-only: use the cache only while offline
+ */
+export type CachePolicy =
+  | 'cache-first'
+  | 'network-first'
+  | 'stale-while-revalidate'
+  | 'offline-only';
+
+/**
+ * Cache Configuration
+ */
+export interface CacheConfig {
+  policy?: CachePolicy; // Default policy for GET requests, default 'network-first'
+  maxEntries?: number; // Oldest entries are dropped beyond it, default 100
+  maxAge?: number; // Entries older than this are never served, default 7 days
+  ttl?: number; // Freshness in ms without Cache-Control max-age, default 0
+  persist?: boolean; // Default: true
+  storageKey?: string; // Default: 'network-smart-handler-cache'
+}
+
+/**
+ * Cached Response
+ * Stored form of a GET response
+ */
+export interface CachedResponse {
+  key: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body?: string; // Text bodies
+  encodedBody?: EncodedBody; // Binary bodies, through the body codecs
+  vary?: Record<string, string | null>; // Request headers named by Vary, as sent
+  storedAt: number; // When the response was stored or last revalidated
+  freshUntil: number; // Served without revalidation until then
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Cache Info
+ * How a response returned by smartFetch was produced
+ */
+export interface CacheInfo {
+  cached: boolean; // Served from the response cache
+  stale: boolean; // Past its freshness, could not be revalidated yet
+  storedAt?: number; // When the cached response was stored or revalidated
+}
+
+/**
+ * Replay Handler
+ * Receives the response of a request that was restored from storage and
+ * replayed, since the original smartFetch promise did not survive the restart
+ */
+export type ReplayHandler = (
+  response: Response,
+  request: QueuedRequest
+) => void | Promise<void>;
+
+/**
+ * Per-request options for smartFetch
+ */
+export interface SmartFetchOptions {
+  replayHandler?: string; // Name of a handler registered with registerReplayHandler
+  dedupeKey?: string; // Collapse queued duplicates
+  dedupeStrategy?: DedupeStrategy; // Overrides queue.dedupe for this request
+  ttl?: number; // Time to live in the queue, in milliseconds (overrides queue.ttl)
+  expiresAt?: number; // Absolute expiry timestamp, takes precedence over ttl
+  serial?: boolean; // Send in order with other serial requests, one at a time
+  group?: string; // Send in order with requests of the same group, one at a time
+  id?: string; // Client-assigned request ID, to reference it in dependsOn
+  dependsOn?: string[]; // IDs of requests that must succeed before this one
+  timeout?: number | false; // Per-attempt timeout in ms, overrides timeout.attempt
+  deadline?: number; // Overall time in ms for queueing, attempts and backoff
+  cache?: CachePolicy | false; // Overrides cache.policy, false bypasses the cache
+  cacheKey?: string; // Default: the URL with the Accept, Accept-Language and Authorization headers
+  coalesce?: boolean; // false sends this GET/HEAD even when an identical one is in flight
+}
+
+/**
+ * Coalescing Configuration
+ * Identical GET and HEAD requests in flight share one fetch
+ */
+export interface CoalesceConfig {
+  headers?: string[]; // Headers that tell requests apart, default ['Accept', 'Accept-Language', 'Authorization']
+}
+
+/**
+ * Timeout Configuration
+ */
+export interface TimeoutConfig {
+  attempt?: number | Partial<Record<NetworkQuality, number>>; // Default { weak: 30000, medium: 20000, strong: 15000 }
+  latencyMultiplier?: number; // Attempts get at least latency x multiplier, default 10
+  maxAttempt?: number; // Upper bound of adaptive attempt timeouts, default 120000ms
+  deadline?: number; // Default overall deadline in ms, none unless set
+}
+
+/**
+ * Transport
+ * Function that sends the library's traffic, fetch by default
+ */
+export type Transport = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Middleware Request
+ * One attempt as seen by middleware. Changes are passed on to the next
+ * middleware and to fetch.
+ */
+export interface MiddlewareRequest {
+  url: string;
+  options: RequestInit & { headers: Record<string, string> };
+  attempt: number; // 1 for the first attempt, counts retries
+  requestId?: string; // Queue entry ID, or the id option of a live request
+  queued: boolean; // Sent from the queue, e.g. replayed after a restart
+}
+
+/**
+ * Hands the request to the rest of the chain, the last step sends it
+ */
+export type MiddlewareNext = (request?: MiddlewareRequest) => Promise<Response>;
+
+/**
+ * Middleware
+ * Runs around every attempt, in the order it was added with use(). May
+ * rewrite the request, return a response without calling next, inspect the
+ * response or error, or throw RetryRequestError to retry the attempt.
+ */
+export type Middleware = (
+  request: MiddlewareRequest,
+  next: MiddlewareNext
+) => Promise<Response>;
+
+/**
+ * Auth Configuration
+ * Supplies credentials at send time, so requests replayed from the queue never
+ * carry a token that expired while they waited
+ */
+export interface AuthConfig {
+  getHeaders: () => Record<string, string> | Promise<Record<string, string>>; // Added to every attempt right before it is sent
+  refresh: () => Promise<void>; // Renews the credentials, runs once for concurrent 401s
+  shouldRefresh?: (response: Response) => boolean; // Default: status 401
+}
+
+/**
+ * Probe Result
+ * Measurement of one quality probe
+ */
+export interface ProbeResult {
+  latency?: number; // in milliseconds, Infinity when the target is unreachable
+  throughput?: number; // in bytes per second
+}
+
+/**
+ * Probe Context
+ * What the detector hands to probe strategies
+ */
+export interface ProbeContext {
+  transport: Transport; // Sends probe requests, see NetworkHandlerConfig.transport
+  respectDataSaver: boolean; // Probes should not download payloads when true
+}
+
+/**
+ * Probe Strategy
+ * Measures network quality. Resolves undefined when it has nothing to report,
+ * e.g. because the API it reads is missing.
+ */
+export interface ProbeStrategy {
+  name: string;
+  probe(context: ProbeContext): Promise<ProbeResult | undefined>;
+}
+
+/**
+ * Endpoint Probe Configuration
+ * Own health endpoint, answering HEAD and GET with a 2xx status
+ */
+export interface EndpointProbeConfig {
+  url: string;
+  timeout?: number; // Default: 5000ms
+  throughput?: boolean; // Download the endpoint to measure throughput, default false
+}
+
+/**
+ * Traffic Sample
+ * Timing of one real request attempt, fed to the passive estimator
+ */
+export interface TrafficSample {
+  duration: number; // ms until the response arrived, or until the attempt failed
+  bytes?: number; // Bytes downloaded within duration, only when the body was timed
+  failed?: boolean; // No response: network failure or attempt timeout
+  timestamp?: number; // Default: now
+}
+
+/**
+ * Passive Estimation Configuration
+ * Quality derived from the app's own requests
+ */
+export interface PassiveEstimationConfig {
+  window?: number; // Sliding window of samples in ms, default 60000
+  minSamples?: number; // Samples in the window before traffic decides, default 3
+  percentile?: number; // Latency percentile from 0 to 1, default 0.5
+}
+
+/**
+ * Reachability Result
+ * Outcome of one reachability check
+ */
+export type ReachabilityResult = 'reachable' | 'captive-portal' | 'unreachable';
+
+/**
+ * Reachability Configuration
+ * Endpoint answering with a known status and body, e.g. a 204 generator
+ */
+export interface ReachabilityConfig {
+  url: string;
+  expectedStatus?: number; // Default: 204
+  expectedBody?: string; // Compared trimmed, not checked unless set
+  interval?: number; // Between checks while reachable, default 30000ms
+  retryInterval?: number; // First retry after a failed check, doubles from there, default 5000ms
+  maxRetryInterval?: number; // Default: 300000ms
+  timeout?: number; // Default: 5000ms
+}
+
+/**
+ * Stability Configuration
+ * Keeps status listeners from seeing every noisy sample
+ */
+export interface StabilityConfig {
+  hysteresis?: number; // Fraction a latency must pass a quality threshold by, default 0.1
+  confirmSamples?: number; // N: samples that must agree on a new quality, default 2
+  sampleWindow?: number; // M: latest samples considered, default 3
+  minDwell?: number; // ms a quality or connectivity holds before quality may change, default 5000
+  offlineDelay?: number; // ms a drop must last before going offline, default 1000
+  onlineDelay?: number; // ms a connection must last before going online, default 0
 }
 
 /**
@@ -85,8 +504,22 @@ export interface NetworkHandlerConfig {
   };
   testEndpoint?: string; // Endpoint for network quality testing
   enableQualityTesting?: boolean;
+  passiveEstimation?: PassiveEstimationConfig | false; // Quality from real traffic, on unless false
+  probe?: ProbeStrategy | ProbeStrategy[]; // Several are tried in order until one reports, default testEndpoint or passive probes
   qualityTestInterval?: number; // in milliseconds
+  stability?: StabilityConfig | false; // false reports every sample as it comes
+  reachability?: ReachabilityConfig; // Real internet check on web, off unless set
+  probeFailureThreshold?: number; // Failed probes in a row before going offline, default 3
   respectDataSaver?: boolean; // Respect user's data saver settings
+  concurrency?: number | Partial<Record<NetworkQuality, number>>; // Max parallel requests, default { weak: 1, medium: 3, strong: 6 }
+  deadLetter?: DeadLetterConfig;
+  circuitBreaker?: CircuitBreakerConfig; // Per-origin circuit breaker, off unless set
+  retryBudget?: RetryBudgetConfig; // Shared retry budget, off unless set
+  timeout?: TimeoutConfig | false; // false disables attempt timeouts
+  auth?: AuthConfig; // Token provider, refreshed once on 401
+  transport?: Transport; // Sends requests and quality probes, default global fetch
+  cache?: CacheConfig; // Response cache for GET requests, off unless set
+  coalesce?: CoalesceConfig | false; // false sends every GET/HEAD on its own
 }
 
 /**
@@ -115,7 +548,47 @@ export type NetworkEventType =
   | 'request-dequeued'
   | 'request-retried'
   | 'request-succeeded'
-  | 'request-failed';
+  | 'request-failed'
+  | 'request-replayed'
+  | 'replay-drained'
+  | 'request-deduplicated'
+  | 'request-expired'
+  | 'request-cancelled'
+  | 'request-dropped'
+  | 'request-parked'
+  | 'request-updated'
+  | 'queue-paused'
+  | 'queue-resumed'
+  | 'request-dead-lettered'
+  | 'dead-letter-evicted'
+  | 'circuit-state-changed'
+  | 'retry-budget-exhausted'
+  | 'auth-refresh-failed'
+  | 'cache-hit'
+  | 'request-coalesced';
+
+/**
+ * Queue Event
+ * Changes RequestQueue makes on its own, reported to its listeners
+ */
+export type QueueEvent =
+  | {
+      type: 'deduplicated';
+      request: QueuedRequest;
+      strategy: DedupeStrategy;
+    }
+  | { type: 'expired'; requests: QueuedRequest[] }
+  | {
+      type: 'dropped';
+      requests: QueuedRequest[];
+      reason: 'queue-full' | 'cleared';
+    }
+  | {
+      type: 'dependency-failed';
+      parentId: string;
+      requests: QueuedRequest[];
+      action: 'cancel' | 'park';
+    };
 
 /**
  * Network Event
@@ -166,3 +639,16 @@ export interface StorageAdapter {
   removeItem(key: string): Promise<void>;
   clear(): Promise<void>;
 }
+
+/**
+ * Queue Record Store
+ * Optional storage capability: when a StorageAdapter implements it,
+ * RequestQueue writes each request as its own record instead of
+ * rewriting the whole queue on every change
+ */
+export interface QueueRecordStore {
+  getRecords(queueKey: string): Promise<StoredRequest[]>;
+  putRecord(queueKey: string, record: StoredRequest): Promise<void>;
+  deleteRecord(queueKey: string, id: string): Promise<void>;
+  clearRecords(queueKey: string): Promise<void>;
+}
@@ -0,0 +1,46 @@
+/**
+ * Combine signals into one that aborts as soon as any of them does
+ * Falls back to listeners where AbortSignal.any is missing (React Native).
+ * Call dispose once the request settled to drop the listeners.
+ */
+export function combineSignals(
+  ...signals: Array<AbortSignal | null | undefined>
+): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const sources = signals.filter(
+    (signal): signal is AbortSignal => signal !== null && signal !== undefined
+  );
+
+  const aborted = sources.find((signal) => signal.aborted);
+  if (aborted) {
+    controller.abort(aborted.reason);
+    return { signal: controller.signal, dispose: () => {} };
+  }
+
+  const listeners = sources.map((source) => {
+    const listener = () => controller.abort(source.reason);
+    source.addEventListener('abort', listener);
+    return () => source.removeEventListener('abort', listener);
+  });
+
+  return {
+    signal: controller.signal,
+    dispose: () => listeners.forEach((remove) => remove()),
+  };
+}
+
+/**
+ * Signal that aborts after ms milliseconds
+ * Call clear to stop the timer when it is no longer needed
+ */
+export function abortAfter(
+  ms: number,
+  reason?: unknown
+): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(reason), Math.max(0, ms));
+  return {
+    signal: controller.signal,
+    clear: () => clearTimeout(timeoutId),
+  };
+}
@@ -0,0 +1,280 @@
+import type { BodyCodec, EncodedBody } from '../types';
+import { BodySerializationError } from '../core/errors';
+
+/* eslint-disable no-bitwise */
+const BASE64_CHARS =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encode bytes as base64 (btoa is not available on every RN engine)
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i]!;
+    const b = bytes[i + 1];
+    const c = bytes[i + 2];
+    const triplet = (a << 16) | ((b ?? 0) << 8) | (c ?? 0);
+
+    result += BASE64_CHARS[(triplet >> 18) & 63];
+    result += BASE64_CHARS[(triplet >> 12) & 63];
+    result += b === undefined ? '=' : BASE64_CHARS[(triplet >> 6) & 63];
+    result += c === undefined ? '=' : BASE64_CHARS[triplet & 63];
+  }
+  return result;
+}
+
+/**
+ * Decode base64 into bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+
+  for (let i = 0; i < clean.length; i += 4) {
+    const chunk = [0, 1, 2, 3].map((offset) => {
+      const char = clean[i + offset];
+      return char === undefined ? 0 : BASE64_CHARS.indexOf(char);
+    });
+    const triplet =
+      (chunk[0]! << 18) | (chunk[1]! << 12) | (chunk[2]! << 6) | chunk[3]!;
+
+    bytes[byteIndex++] = (triplet >> 16) & 255;
+    if (i + 2 < clean.length) bytes[byteIndex++] = (triplet >> 8) & 255;
+    if (i + 3 < clean.length) bytes[byteIndex++] = triplet & 255;
+  }
+  return bytes.subarray(0, byteIndex);
+}
+/* eslint-enable no-bitwise */
+
+const hasBlob = () => typeof Blob !== 'undefined';
+
+function isBlob(value: unknown): value is Blob {
+  return hasBlob() && value instanceof Blob;
+}
+
+/**
+ * Read a Blob's bytes (RN Blobs have no arrayBuffer(), use FileReader there)
+ */
+async function readBlob(blob: Blob): Promise<Uint8Array> {
+  if (typeof blob.arrayBuffer === 'function') {
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+  return base64ToBytes(dataUrl.slice(dataUrl.indexOf(',') + 1));
+}
+
+async function encodeBlob(blob: Blob) {
+  return {
+    base64: bytesToBase64(await readBlob(blob)),
+    type: blob.type || undefined,
+    filename: (blob as File).name || undefined,
+  };
+}
+
+function decodeBlob(data: {
+  base64: string;
+  type?: string;
+  filename?: string;
+}): Blob {
+  const bytes = base64ToBytes(data.base64);
+  if (data.filename && typeof File !== 'undefined') {
+    return new File([bytes as BlobPart], data.filename, { type: data.type });
+  }
+  return new Blob([bytes as BlobPart], { type: data.type });
+}
+
+const textCodec: BodyCodec = {
+  name: 'text',
+  canEncode: (body) => typeof body === 'string',
+  encode: (body: string) => body,
+  decode: (data: string) => data,
+};
+
+const urlSearchParamsCodec: BodyCodec = {
+  name: 'url-search-params',
+  canEncode: (body) =>
+    typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams,
+  encode: (body: URLSearchParams) => body.toString(),
+  decode: (data: string) => new URLSearchParams(data),
+};
+
+const arrayBufferCodec: BodyCodec = {
+  name: 'array-buffer',
+  canEncode: (body) =>
+    body instanceof ArrayBuffer || ArrayBuffer.isView(body as any),
+  encode: (body: ArrayBuffer | ArrayBufferView) => {
+    if (body instanceof ArrayBuffer) {
+      return { base64: bytesToBase64(new Uint8Array(body)) };
+    }
+    const bytes = new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+    return { base64: bytesToBase64(bytes), view: body.constructor.name };
+  },
+  decode: (data: { base64: string; view?: string }) => {
+    const bytes = base64ToBytes(data.base64);
+    const buffer = bytes.buffer.slice(
+      bytes.byteOffset,
+      bytes.byteOffset + bytes.byteLength
+    );
+    if (!data.view) {
+      return buffer;
+    }
+    const View = (globalThis as any)[data.view];
+    return typeof View === 'function' ? new View(buffer) : bytes;
+  },
+};
+
+const blobCodec: BodyCodec = {
+  name: 'blob',
+  canEncode: isBlob,
+  encode: encodeBlob,
+  decode: decodeBlob,
+};
+
+type FormDataEntry =
+  | { name: string; kind: 'string'; value: string }
+  | {
+      name: string;
+      kind: 'blob';
+      value: { base64: string; type?: string; filename?: string };
+    }
+  | { name: string; kind: 'uri'; value: Record<string, any> };
+
+const formDataCodec: BodyCodec = {
+  name: 'form-data',
+  canEncode: (body) =>
+    typeof FormData !== 'undefined' && body instanceof FormData,
+  encode: async (body: FormData) => {
+    const entries: FormDataEntry[] = [];
+
+    // React Native's FormData exposes parts instead of entries()
+    if (typeof (body as any).getParts === 'function') {
+      for (const part of (body as any).getParts()) {
+        const name = part.fieldName;
+        if (typeof part.string === 'string') {
+          entries.push({ name, kind: 'string', value: part.string });
+        } else if (part.uri) {
+          // File parts point at a local URI which stays valid across restarts
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const { headers, fieldName, ...value } = part;
+          entries.push({ name, kind: 'uri', value });
+        }
+      }
+      return entries;
+    }
+
+    for (const [name, value] of (body as any).entries()) {
+      if (typeof value === 'string') {
+        entries.push({ name, kind: 'string', value });
+      } else {
+        entries.push({ name, kind: 'blob', value: await encodeBlob(value) });
+      }
+    }
+    return entries;
+  },
+  decode: (entries: FormDataEntry[]) => {
+    const formData = new FormData();
+    entries.forEach((entry) => {
+      if (entry.kind === 'blob') {
+        const blob = decodeBlob(entry.value);
+        formData.append(entry.name, blob, entry.value.filename);
+      } else {
+        formData.append(entry.name, entry.value as any);
+      }
+    });
+    return formData;
+  },
+};
+
+const jsonCodec: BodyCodec = {
+  name: 'json',
+  canEncode: (body) => {
+    if (
+      Array.isArray(body) ||
+      typeof body === 'number' ||
+      typeof body === 'boolean'
+    ) {
+      return true;
+    }
+    if (typeof body !== 'object' || body === null) {
+      return false;
+    }
+    // Plain objects only, class instances would lose their prototype
+    const proto = Object.getPrototypeOf(body);
+    return proto === Object.prototype || proto === null;
+  },
+  encode: (body) => body,
+  decode: (data) => data,
+};
+
+/**
+ * Built-in codecs, in the order they are tried
+ */
+export const defaultBodyCodecs: BodyCodec[] = [
+  textCodec,
+  urlSearchParamsCodec,
+  arrayBufferCodec,
+  formDataCodec,
+  blobCodec,
+  jsonCodec,
+];
+
+/**
+ * Body Codec Registry
+ * Picks the codec for a body and restores bodies by codec name
+ */
+export class BodyCodecRegistry {
+  private codecs: BodyCodec[];
+
+  constructor(customCodecs: BodyCodec[] = []) {
+    this.codecs = [...customCodecs, ...defaultBodyCodecs];
+  }
+
+  /**
+   * Encode body into its tagged form, throws if it cannot be stored
+   */
+  async encode(body: unknown): Promise<EncodedBody | undefined> {
+    if (body === undefined || body === null) {
+      return undefined;
+    }
+
+    if (
+      typeof ReadableStream !== 'undefined' &&
+      body instanceof ReadableStream
+    ) {
+      throw new BodySerializationError(
+        'ReadableStream bodies cannot be persisted; read the stream into a Blob or ArrayBuffer before queueing'
+      );
+    }
+
+    const codec = this.codecs.find((c) => c.canEncode(body));
+    if (!codec) {
+      const typeName = (body as any)?.constructor?.name || typeof body;
+      throw new BodySerializationError(
+        `No body codec can persist a body of type ${typeName}`
+      );
+    }
+
+    return { codec: codec.name, data: await codec.encode(body) };
+  }
+
+  /**
+   * Restore body from its tagged form
+   */
+  decode(encoded: EncodedBody): any {
+    const codec = this.codecs.find((c) => c.name === encoded.codec);
+    if (!codec) {
+      throw new BodySerializationError(
+        `No body codec registered for "${encoded.codec}"`
+      );
+    }
+    return codec.decode(encoded.data);
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Convert any HeadersInit into a plain record that can be queued and stored
+ */
+export function toHeaderRecord(
+  headers?: HeadersInit | Record<string, string>
+): Record<string, string> | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const record: Record<string, string> = {};
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    headers.forEach((value, key) => {
+      record[key] = value;
+    });
+  } else if (Array.isArray(headers)) {
+    headers.forEach(([key, value]) => {
+      if (key !== undefined && value !== undefined) {
+        record[key] = value;
+      }
+    });
+  } else {
+    Object.assign(record, headers);
+  }
+  return record;
+}
+
+/**
+ * Find a header value by case-insensitive name
+ */
+export function getHeader(
+  headers: Record<string, string> | undefined,
+  name: string
+): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  const lowerName = name.toLowerCase();
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === lowerName);
+  return key !== undefined ? headers[key] : undefined;
+}
+
+/**
+ * Set a header, replacing it under any case of its name
+ */
+export function withHeader(
+  headers: Record<string, string> | undefined,
+  name: string,
+  value: string
+): Record<string, string> {
+  const lowerName = name.toLowerCase();
+  const record: Record<string, string> = {};
+  Object.entries(headers || {}).forEach(([key, current]) => {
+    if (key.toLowerCase() !== lowerName) {
+      record[key] = current;
+    }
+  });
+  record[name] = value;
+  return record;
+}
@@ -0,0 +1,10 @@
+/**
+ * Generate a random ID, used for queue entries and idempotency keys
+ * Falls back to time and Math.random where crypto.randomUUID is missing
+ */
+export function generateId(): string {
+  if (typeof globalThis.crypto?.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
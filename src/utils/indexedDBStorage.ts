@@ -0,0 +1,210 @@
+import type { QueueRecordStore, StorageAdapter, StoredRequest } from '../types';
+
+const KEY_VALUE_STORE = 'keyValue';
+const REQUEST_STORE = 'requests';
+
+/**
+ * IndexedDB Storage Adapter Options
+ */
+export interface IndexedDBStorageOptions {
+  databaseName?: string;
+  indexedDB?: IDBFactory; // Defaults to the global indexedDB, inject a shim in tests
+}
+
+/**
+ * Record layout in the requests store
+ */
+interface RequestRecord {
+  queueKey: string;
+  id: string;
+  priority: number;
+  timestamp: number;
+  request: StoredRequest;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction commits
+ */
+function complete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Storage adapter for Web backed by IndexedDB
+ * Queued requests are kept one record each, indexed by priority and timestamp
+ */
+export class IndexedDBStorageAdapter
+  implements StorageAdapter, QueueRecordStore
+{
+  private databaseName: string;
+  private factory?: IDBFactory;
+  private db?: Promise<IDBDatabase>;
+
+  constructor(options: IndexedDBStorageOptions = {}) {
+    this.databaseName = options.databaseName || 'network-smart-handler';
+    this.factory =
+      options.indexedDB ||
+      (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    try {
+      const value = await this.run(KEY_VALUE_STORE, 'readonly', (store) =>
+        store.get(key)
+      );
+      return typeof value === 'string' ? value : null;
+    } catch (error) {
+      console.warn('IndexedDB getItem failed:', error);
+      return null;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    try {
+      await this.run(KEY_VALUE_STORE, 'readwrite', (store) =>
+        store.put(value, key)
+      );
+    } catch (error) {
+      console.warn('IndexedDB setItem failed:', error);
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    try {
+      await this.run(KEY_VALUE_STORE, 'readwrite', (store) =>
+        store.delete(key)
+      );
+    } catch (error) {
+      console.warn('IndexedDB removeItem failed:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await this.run(KEY_VALUE_STORE, 'readwrite', (store) => store.clear());
+      await this.run(REQUEST_STORE, 'readwrite', (store) => store.clear());
+    } catch (error) {
+      console.warn('IndexedDB clear failed:', error);
+    }
+  }
+
+  async getRecords(queueKey: string): Promise<StoredRequest[]> {
+    try {
+      const records: RequestRecord[] = await this.run(
+        REQUEST_STORE,
+        'readonly',
+        (store) => store.index('queueKey').getAll(queueKey)
+      );
+      return records.map((record) => record.request);
+    } catch (error) {
+      console.warn('IndexedDB getRecords failed:', error);
+      return [];
+    }
+  }
+
+  async putRecord(queueKey: string, request: StoredRequest): Promise<void> {
+    const record: RequestRecord = {
+      queueKey,
+      id: request.id,
+      priority: request.priority || 0,
+      timestamp: request.timestamp,
+      request,
+    };
+    await this.run(REQUEST_STORE, 'readwrite', (store) => store.put(record));
+  }
+
+  async deleteRecord(queueKey: string, id: string): Promise<void> {
+    await this.run(REQUEST_STORE, 'readwrite', (store) =>
+      store.delete([queueKey, id])
+    );
+  }
+
+  async clearRecords(queueKey: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(REQUEST_STORE, 'readwrite');
+    const cursorRequest = transaction
+      .objectStore(REQUEST_STORE)
+      .index('queueKey')
+      .openCursor(queueKey);
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    await complete(transaction);
+  }
+
+  /**
+   * Close the database connection
+   */
+  async close(): Promise<void> {
+    if (this.db) {
+      const db = await this.db.catch(() => undefined);
+      db?.close();
+      this.db = undefined;
+    }
+  }
+
+  /**
+   * Open database, creating stores and indexes on first use
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const factory = this.factory;
+      if (!factory) {
+        return Promise.reject(new Error('IndexedDB is not available'));
+      }
+
+      this.db = new Promise((resolve, reject) => {
+        const request = factory.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore(KEY_VALUE_STORE);
+          const requests = db.createObjectStore(REQUEST_STORE, {
+            keyPath: ['queueKey', 'id'],
+          });
+          requests.createIndex('queueKey', 'queueKey');
+          requests.createIndex('priority', ['queueKey', 'priority']);
+          requests.createIndex('timestamp', ['queueKey', 'timestamp']);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Run a single-store operation inside its own transaction
+   */
+  private async run<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    const transaction = db.transaction(storeName, mode);
+    const [result] = await Promise.all([
+      promisify(operation(transaction.objectStore(storeName))),
+      complete(transaction),
+    ]);
+    return result;
+  }
+}
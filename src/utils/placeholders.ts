@@ -0,0 +1,75 @@
+const PLACEHOLDER = /\{\{\s*([^.}\s]+)((?:\.[^.}\s]+)*)\s*\}\}/g;
+
+/**
+ * Read a dot path (e.g. "data.items.0.id") from a value
+ */
+function readPath(value: any, path: string): any {
+  if (!path) {
+    return value;
+  }
+  return path
+    .slice(1)
+    .split('.')
+    .reduce(
+      (current, key) => (current == null ? undefined : current[key]),
+      value
+    );
+}
+
+/**
+ * Fill {{parentId.path}} placeholders in a string
+ * Inside objects, a string that is exactly one placeholder takes the raw
+ * value, so numeric IDs stay numbers in JSON bodies
+ */
+function fillString(
+  value: string,
+  parentId: string,
+  result: any,
+  keepRawValue: boolean
+): any {
+  const exact = new RegExp(`^${PLACEHOLDER.source}$`).exec(value);
+  if (keepRawValue && exact && exact[1] === parentId) {
+    const filled = readPath(result, exact[2] || '');
+    return filled === undefined ? value : filled;
+  }
+
+  return value.replace(PLACEHOLDER, (match, id: string, path: string) => {
+    if (id !== parentId) {
+      return match;
+    }
+    const filled = readPath(result, path);
+    return filled === undefined ? match : String(filled);
+  });
+}
+
+/**
+ * Fill placeholders referencing parentId with values from its response
+ * Walks strings, arrays and plain objects, other values are left untouched
+ */
+export function fillPlaceholders<T>(
+  value: T,
+  parentId: string,
+  result: any,
+  nested = false
+): T {
+  if (typeof value === 'string') {
+    return fillString(value, parentId, result, nested);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      fillPlaceholders(item, parentId, result, true)
+    ) as T;
+  }
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    const filled: Record<string, any> = {};
+    Object.entries(value).forEach(([key, item]) => {
+      filled[key] = fillPlaceholders(item, parentId, result, true);
+    });
+    return filled as T;
+  }
+  return value;
+}
@@ -0,0 +1,25 @@
+/**
+ * Get the p-th percentile of values (p from 0 to 1), interpolating between
+ * neighbours. Undefined for no values.
+ */
+export function percentile(values: number[], p: number): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = Math.min(Math.max(p, 0), 1) * (sorted.length - 1);
+  const lower = sorted[Math.floor(position)]!;
+  const upper = sorted[Math.ceil(position)]!;
+  // Also keeps Infinity from turning into NaN
+  if (lower === upper) {
+    return lower;
+  }
+  return lower + (upper - lower) * (position - Math.floor(position));
+}
+
+/**
+ * Get median of values, undefined for no values
+ */
+export function median(values: number[]): number | undefined {
+  return percentile(values, 0.5);
+}
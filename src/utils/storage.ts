@@ -1,24 +1,19 @@
 import type { StorageAdapter } from '../types';
 
 /**
- * Default storage adapter for Web (IndexedDB/LocalStorage)
+ * Default storage adapter for Web (LocalStorage)
  */
 export class WebStorageAdapter implements StorageAdapter {
   private storage: Storage;
 
   constructor(useIndexedDB = false) {
-    if (
-      useIndexedDB &&
-      typeof window !== 'undefined' &&
-      'indexedDB' in window
-    ) {
-      // For now, fallback to localStorage
-      // IndexedDB implementation can be added if needed
-      this.storage = window.localStorage;
-    } else {
-      this.storage =
-        typeof window !== 'undefined' ? window.localStorage : ({} as Storage);
+    if (useIndexedDB) {
+      console.warn(
+        'WebStorageAdapter only uses localStorage. Use IndexedDBStorageAdapter for IndexedDB storage.'
+      );
     }
+    this.storage =
+      typeof window !== 'undefined' ? window.localStorage : ({} as Storage);
   }
 
   async getItem(key: string): Promise<string | null> {